@@ -4,12 +4,88 @@ import {
   Language, 
   Voice, 
   LANGUAGE_VOICE_MAP, 
+  LANGUAGE_DETAILS,
+  ChunkSettings,
+  ConversationMode,
+  EditorTab,
+  GenerationSettings,
+  LexiconEntry,
+  RenderMode,
   SpeakerConfig,
+  ScriptChunk,
+  SentenceSpan,
+  TTSRequest,
   VOICE_DETAILS,
+  VoicePreset,
   VoiceStyle
 } from './types';
-import { generateTTSAudio, generateMultiTTSAudio } from './services/geminiService';
-import { decodeBase64, decodePCMToAudioBuffer, audioBufferToWav } from './utils/audioProcessing';
+import { ttsProvider } from './services/ttsProvider';
+import {
+  decodeBase64,
+  decodePCMToAudioBuffer,
+  audioBufferToWav,
+  stitchAudioBuffers,
+  createSilence,
+  processAudio,
+  stitchOffsets,
+  StretchQuality,
+  masterAudio,
+  measureLoudness,
+  normalizeLoudness,
+  limitTruePeak,
+  MasteringOptions,
+  LoudnessMeasurement,
+  LoudnessPreset,
+  LOUDNESS_PRESETS
+} from './utils/audioProcessing';
+import { chunkScript, splitSentences, DEFAULT_CHUNK_SIZE } from './utils/textChunking';
+import { parseDialogue, missingSpeakers, planDialogueSegments } from './utils/dialogueParser';
+import { saveHistoryEntry } from './services/historyStore';
+import HistoryPanel from './components/HistoryPanel';
+import TransliterationPreview from './components/TransliterationPreview';
+import { isTransliterable, containsRomanText } from './utils/transliteration';
+import LexiconManager from './components/LexiconManager';
+import VoiceGallery from './components/VoiceGallery';
+import PresetManager from './components/PresetManager';
+import { BUILT_IN_PRESETS, findPreset, loadPresets, savePresets } from './utils/voicePresets';
+import { loadLexicon, mergeLexicon, saveLexicon } from './utils/lexicon';
+import { containsSsml, parseSsml } from './utils/ssml';
+import ExportMenu from './components/ExportMenu';
+import { AudioMetadata } from './utils/audioEncoders';
+import WaveformEditor, { WaveformEdit } from './components/WaveformEditor';
+import MusicBedPanel from './components/MusicBedPanel';
+import { mixWithMusicBed, MusicBedOptions, DEFAULT_MUSIC_BED_OPTIONS } from './utils/audioMixing';
+import CaptionTrack from './components/CaptionTrack';
+import { buildCues } from './utils/subtitles';
+import BatchPanel from './components/BatchPanel';
+import { alignSentences, cutRegion, fadeRegion, remapSpans, scaleSpans, spliceRegion, trimToRegion } from './utils/audioEditing';
+import {
+  AwaazProject,
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  autosaveProject,
+  decodeProjectAudio,
+  encodeProjectAudio,
+  loadAutosavedProject,
+  parseProject,
+  projectFilename,
+  serializeProject
+} from './utils/project';
+import { downloadBlob } from './utils/download';
+import { StreamingPlayer } from './utils/streamingPlayback';
+import CommandPalette, { PaletteCommand } from './components/CommandPalette';
+import ShortcutsHelp from './components/ShortcutsHelp';
+import {
+  comboFromEvent,
+  findShortcut,
+  formatCombo,
+  loadShortcuts,
+  saveShortcuts,
+  SHORTCUT_LABELS,
+  ShortcutAction,
+  ShortcutMap,
+  worksWhileTyping
+} from './utils/shortcuts';
 
 const TAGS = [
   '[sigh]', '[laughing]', '[uhm]', '[sarcasm]', '[robotic]', 
@@ -18,9 +94,48 @@ const TAGS = [
   '[scared]', '[curious]', '[bored]'
 ];
 
+// SSML snippets for precise timing and emphasis (single speaker)
+const SSML_SNIPPETS = [
+  '<break time="500ms"/>',
+  '<emphasis level="strong"></emphasis>',
+  '<prosody rate="120%" pitch="+2st"></prosody>',
+  '<say-as interpret-as="characters"></say-as>',
+  '<say-as interpret-as="date" format="dmy"></say-as>',
+  '<say-as interpret-as="number"></say-as>',
+  '<voice name="Puck"></voice>'
+];
+
+/**
+ * Tags embedded in exported files, taken from the settings the audio was rendered with.
+ */
+function exportMetadata(settings: GenerationSettings | null): AudioMetadata {
+  if (!settings) return {};
+  const firstLine = settings.script.trim().split('\n')[0];
+  return {
+    title: firstLine.slice(0, 80) || undefined,
+    artist: 'AwaazAI',
+    voice: settings.tab === 'single' ? settings.voice : settings.speakers.map(s => `${s.name}: ${s.voice}`).join(', '),
+    language: settings.language
+  };
+}
+
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'single' | 'multi'>('single');
+  const [activeTab, setActiveTab] = useState<EditorTab>('single');
+  // The batch workspace replaces the editor but keeps the sidebar for default settings
+  const [workspace, setWorkspace] = useState<'editor' | 'batch'>('editor');
   const [isGenerating, setIsGenerating] = useState(false);
+  // Aborts the in-flight generate or retry run
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Plays finished chunks while the rest of a long script renders
+  const [streamPlayback, setStreamPlayback] = useState(true);
+  const streamPlayerRef = useRef<StreamingPlayer | null>(null);
+  // Milliseconds from pressing Generate until the first streamed audio played
+  const [timeToFirstAudio, setTimeToFirstAudio] = useState<number | null>(null);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(() => loadShortcuts());
+  const [showPalette, setShowPalette] = useState(false);
+  const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
+  // Position in TAGS of the next tag the insert shortcut adds
+  const nextTagRef = useRef(0);
   const [previewingVoice, setPreviewingVoice] = useState<Voice | null>(null);
   const [error, setError] = useState<string | null>(null);
   
@@ -32,6 +147,21 @@ const App: React.FC = () => {
   const [style, setStyle] = useState<VoiceStyle | string>(VoiceStyle.NEUTRAL);
   const [pitch, setPitch] = useState(0);
   const [speed, setSpeed] = useState(1.0);
+  const [transliterationEnabled, setTransliterationEnabled] = useState(false);
+  // Original script awaiting the user's review in the transliteration preview
+  const [transliterationSource, setTransliterationSource] = useState<string | null>(null);
+
+  // Pronunciation lexicon
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>(() => loadLexicon());
+  const [showLexicon, setShowLexicon] = useState(false);
+  const [userPresets, setUserPresets] = useState<VoicePreset[]>(() => loadPresets());
+  const [showPresets, setShowPresets] = useState(false);
+  // What the open voice gallery picks for: the single-speaker voice or a speaker row
+  const [galleryTarget, setGalleryTarget] = useState<'single' | number | null>(null);
+  const [testingLexiconId, setTestingLexiconId] = useState<string | null>(null);
+  const [renderMode, setRenderMode] = useState<RenderMode>('prompt');
+  const [stretchQuality, setStretchQuality] = useState<StretchQuality>('balanced');
+  const [isProcessing, setIsProcessing] = useState(false);
 
   // Multi Speaker State
   const [multiScript, setMultiScript] = useState('');
@@ -39,14 +169,80 @@ const App: React.FC = () => {
     { name: 'Joe', voice: Voice.KORE },
     { name: 'Jane', voice: Voice.PUCK }
   ]);
+  const [conversationMode, setConversationMode] = useState<ConversationMode>('auto');
+  const [turnGap, setTurnGap] = useState(0.3);
+  // Render turns separately and apply speaker speed/pitch with the local DSP engine
+  const [exactSpeakerProsody, setExactSpeakerProsody] = useState(false);
+  const editorBackdropRef = useRef<HTMLDivElement | null>(null);
+
+  // Project file: the editor is autosaved, and Save / Open share it as JSON
+  const [projectName, setProjectName] = useState('Untitled Project');
+  const [embedAudio, setEmbedAudio] = useState(true);
+  const projectInputRef = useRef<HTMLInputElement | null>(null);
 
   // Audio References
   const audioContextRef = useRef<AudioContext | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  // Buffer behind audioUrl, kept for re-encoding on export
+  const [outputBuffer, setOutputBufferState] = useState<AudioBuffer | null>(null);
+  // Output before mastering, so changing the mastering options doesn't need a new render
+  const [unmasteredBuffer, setUnmasteredBuffer] = useState<AudioBuffer | null>(null);
+  const [mastering, setMastering] = useState<MasteringOptions>({ loudness: 'off', highPass: false, trimSilence: false });
+  const [loudness, setLoudness] = useState<LoudnessMeasurement | null>(null);
+  // Normalization applied to the current output, shown apart from the measurement
+  const [normalizedPreset, setNormalizedPreset] = useState<LoudnessPreset>('off');
+  const [musicBed, setMusicBed] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [musicOptions, setMusicOptions] = useState<MusicBedOptions>(DEFAULT_MUSIC_BED_OPTIONS);
+  const [isLoadingMusic, setIsLoadingMusic] = useState(false);
+  // Drops results of superseded output renders (mastering and mixing are async)
+  const outputTokenRef = useRef(0);
+  // Captions follow the sentence spans, shifted by any silence trimmed off the start
+  const [captionOffset, setCaptionOffset] = useState(0);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const audioElementRef = useRef<HTMLAudioElement | null>(null);
+  // Waveform editing: where each source sentence sits in the output, plus an
+  // undo stack of earlier (unmastered) buffers and their spans
+  const [sentenceSpans, setSentenceSpans] = useState<SentenceSpan[]>([]);
+  const rawSpansRef = useRef<SentenceSpan[]>([]);
+  const [undoStack, setUndoStack] = useState<{ buffer: AudioBuffer; spans: SentenceSpan[] }[]>([]);
+  const [regeneratingSpan, setRegeneratingSpan] = useState<number | null>(null);
   const rawBufferRef = useRef<AudioBuffer | null>(null);
+  // Mode the raw buffer was synthesized in; only neutral (precise) renders
+  // can be re-processed locally without baking speed/pitch in twice.
+  const rawRenderModeRef = useRef<RenderMode>('prompt');
+  const processTokenRef = useRef(0);
+
+  // Settings of the render in progress, saved alongside it in history
+  const historySnapshotRef = useRef<GenerationSettings | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Long-form chunk pipeline. Settings are snapshotted per run so a retried
+  // chunk is rendered exactly like its siblings.
+  const [chunks, setChunks] = useState<ScriptChunk[]>([]);
+  const chunkBuffersRef = useRef<(AudioBuffer | null)[]>([]);
+  const chunkSettingsRef = useRef<ChunkSettings | null>(null);
+
+  const parsedDialogue = useMemo(() => parseDialogue(multiScript, speakers), [multiScript, speakers]);
+  const ssmlResult = useMemo(
+    () => (containsSsml(script) ? parseSsml(script, language) : null),
+    [script, language]
+  );
+  // Lines highlighted in the editor for the active tab
+  const issueLines = useMemo(
+    () => new Set(activeTab === 'multi'
+      ? parsedDialogue.issues.map(i => i.line)
+      : (ssmlResult?.errors ?? []).map(e => e.line)),
+    [activeTab, parsedDialogue, ssmlResult]
+  );
+  const unknownSpeakers = useMemo(() => missingSpeakers(parsedDialogue), [parsedDialogue]);
+
+  const captionCues = useMemo(
+    () => buildCues(sentenceSpans, captionOffset, outputBuffer?.duration),
+    [sentenceSpans, captionOffset, outputBuffer]
+  );
 
   const filteredVoices = useMemo(() => {
-    return Object.values(Voice).filter(v => 
+    return ttsProvider.listVoices().filter(v => 
       genderFilter === 'All' || VOICE_DETAILS[v].gender === genderFilter
     );
   }, [genderFilter]);
@@ -74,21 +270,60 @@ const App: React.FC = () => {
     else setMultiScript(prev => prev + (prev.length ? ' ' : '') + tag + ' ');
   };
 
-  const handlePreviewVoice = async (voice: Voice) => {
+  // Switching language also switches to that language's default voice
+  const handleLanguageChange = (next: Language) => {
+    setLanguage(next);
+    setSelectedVoice(LANGUAGE_VOICE_MAP[next]);
+  };
+
+  // Creates speaker cards for names used in the script, preferring unused voices
+  const addSpeakers = (names: string[]) => {
+    if (names.length === 0) return;
+    setSpeakers(prev => {
+      const used = new Set(prev.map(s => s.voice));
+      const available = ttsProvider.listVoices().filter(v => !used.has(v));
+      const added = names
+        .filter(name => !prev.some(s => s.name === name))
+        .map((name, i) => ({ name, voice: available[i % Math.max(1, available.length)] ?? Voice.KORE }));
+      return [...prev, ...added];
+    });
+  };
+
+  const addBlankSpeaker = () => {
+    let n = speakers.length + 1;
+    while (speakers.some(s => s.name === `Speaker ${n}`)) n++;
+    addSpeakers([`Speaker ${n}`]);
+  };
+
+  const removeSpeaker = (index: number) => {
+    setSpeakers(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Rewrites the speaker prefix of a single line to the suggested name
+  const applySpeakerSuggestion = (line: number, suggestion: string) => {
+    setMultiScript(prev => prev
+      .split('\n')
+      .map((text, idx) => (idx + 1 === line ? text.replace(/^(\s*)[^:：]+?(\s*[:：])/, `$1${suggestion}$2`) : text))
+      .join('\n'));
+  };
+
+  const handlePreviewVoice = async (
+    voice: Voice,
+    text: string = 'Hello, this is a voice preview.',
+    options: Partial<Pick<TTSRequest, 'language' | 'lexicon' | 'style' | 'speed' | 'pitch'>> = {}
+  ) => {
     if (previewingVoice) return;
     setPreviewingVoice(voice);
     try {
-      // Previews are always 1x speed and 0 pitch for consistency
-      const base64Data = await generateTTSAudio('Hello, this is a voice preview.', '', voice, 1.0, 0);
-      if (base64Data) {
-        const ctx = getAudioContext();
-        const pcmBytes = decodeBase64(base64Data);
-        const buffer = await decodePCMToAudioBuffer(pcmBytes, ctx);
-        const source = ctx.createBufferSource();
-        source.buffer = buffer;
-        source.connect(ctx.destination);
-        source.start();
-      }
+      // Previews default to 1x speed and 0 pitch for consistency; presets pass their own
+      const { audio } = await ttsProvider.synthesize({ text, voice, speed: 1.0, pitch: 0, ...options });
+      const ctx = getAudioContext();
+      const pcmBytes = decodeBase64(audio);
+      const buffer = await decodePCMToAudioBuffer(pcmBytes, ctx);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.start();
     } catch (err: any) {
       console.error("Preview failed", err);
       setError(err.message || "Failed to preview voice.");
@@ -97,41 +332,830 @@ const App: React.FC = () => {
     }
   };
 
-  const generate = async () => {
-    if (isGenerating) return;
+  const gallerySpeaker = typeof galleryTarget === 'number' ? speakers[galleryTarget] ?? null : null;
+  const galleryLanguage = gallerySpeaker?.language ?? language;
+
+  // The sidebar dropdown only lists the filtered gender, so widen it if needed
+  const chooseVoice = (voice: Voice) => {
+    if (genderFilter !== 'All' && VOICE_DETAILS[voice].gender !== genderFilter) setGenderFilter('All');
+    setSelectedVoice(voice);
+  };
+
+  const selectGalleryVoice = (voice: Voice) => {
+    if (typeof galleryTarget === 'number') {
+      setSpeakers(prev => prev.map((s, i) => (i === galleryTarget ? { ...s, voice, presetId: undefined } : s)));
+    } else {
+      chooseVoice(voice);
+    }
+    setGalleryTarget(null);
+  };
+
+  // Presets and projects can carry free-text styles that aren't in the list
+  const isCustomStyle = !Object.values(VoiceStyle).includes(style as VoiceStyle);
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
+
+  const updatePresets = (next: VoicePreset[]) => {
+    const user = next.filter(p => !p.builtIn);
+    setUserPresets(user);
+    savePresets(user);
+  };
+
+  const previewSpeaker = (speaker: SpeakerConfig) => {
+    const { voice, style, speed, pitch, language } = speaker;
+    handlePreviewVoice(voice, undefined, { style, speed, pitch, language });
+  };
+
+  const previewPreset = (preset: VoicePreset) => {
+    const { voice, style, speed, pitch, language } = preset;
+    handlePreviewVoice(voice, undefined, { style, speed, pitch, language });
+  };
+
+  // Loads a preset into the single-speaker settings
+  const applyPreset = (preset: VoicePreset) => {
+    setLanguage(preset.language);
+    chooseVoice(preset.voice);
+    setStyle(preset.style);
+    setPitch(preset.pitch);
+    setSpeed(preset.speed);
+  };
+
+  const assignSpeakerPreset = (index: number, presetId: string) => {
+    const preset = findPreset(presets, presetId);
+    setSpeakers(prev => prev.map((s, i) => {
+      if (i !== index) return s;
+      if (!preset) return { ...s, presetId: undefined };
+      const { voice, style: presetStyle, speed: presetSpeed, pitch: presetPitch } = preset;
+      return { ...s, presetId: preset.id, voice, style: presetStyle, speed: presetSpeed, pitch: presetPitch };
+    }));
+  };
+
+  // Hand-tuning a speaker detaches it from its preset
+  const updateSpeakerDirection = (index: number, patch: Pick<Partial<SpeakerConfig>, 'style' | 'speed' | 'pitch'>) => {
+    setSpeakers(prev => prev.map((s, i) => (i === index ? { ...s, ...patch, presetId: undefined } : s)));
+  };
+
+  const updateLexicon = (entries: LexiconEntry[]) => {
+    setLexicon(entries);
+    saveLexicon(entries);
+  };
+
+  // Auditions a single lexicon term through the voice preview flow
+  const handleTestLexiconEntry = async (entry: LexiconEntry) => {
+    setTestingLexiconId(entry.id);
+    try {
+      await handlePreviewVoice(selectedVoice, entry.term, { language: entry.language, lexicon: [entry] });
+    } finally {
+      setTestingLexiconId(null);
+    }
+  };
+
+  /**
+   * Runs the post-processing chain (mastering, then the music bed mix) on a
+   * voice buffer and loads the result into the player.
+   */
+  const setOutputBuffer = async (buffer: AudioBuffer): Promise<{ blob: Blob; duration: number } | null> => {
+    const token = ++outputTokenRef.current;
+    setUnmasteredBuffer(buffer);
+
+    const mastered = masterAudio(buffer, mastering);
+    let output = mastered.buffer;
+    if (musicBed) {
+      output = await mixWithMusicBed(output, musicBed.buffer, musicOptions);
+      // The bed adds level on top of the mastered voice, so hold the peaks again
+      if (mastering.loudness !== 'off') output = limitTruePeak(output, LOUDNESS_PRESETS[mastering.loudness].truePeakDb);
+    }
+    if (token !== outputTokenRef.current) return null;
+    setCaptionOffset(mastered.trimmedStart);
+
+    // The full-length loudness pass is slow on long scripts, so it runs after the
+    // new output has been shown, and not at all for stale outputs
+    setLoudness(null);
+    setNormalizedPreset(mastering.loudness);
+    // Next frame, then a task, so the browser paints the new output first
+    requestAnimationFrame(() => setTimeout(() => {
+      if (token === outputTokenRef.current) setLoudness(measureLoudness(output));
+    }, 0));
+
+    const wavBlob = audioBufferToWav(output);
+    const newUrl = URL.createObjectURL(wavBlob);
+    setOutputBufferState(output);
+
+    // Revoke old URL if it exists
+    setAudioUrl(prev => {
+      if (prev) URL.revokeObjectURL(prev);
+      return newUrl;
+    });
+    return { blob: wavBlob, duration: output.duration };
+  };
+
+  // Re-runs post-processing without a new render (edits, mastering and mix changes)
+  const refreshOutput = (buffer: AudioBuffer) => {
+    setOutputBuffer(buffer).catch((err: any) => {
+      setError(err.message || "Failed to process audio.");
+    });
+  };
+
+  /**
+   * Applies the exact slider values to the neutral raw render using the local
+   * WSOLA engine. Stale results are dropped if the sliders moved in the meantime.
+   */
+  const renderPrecise = async (source: AudioBuffer, targetSpeed: number, targetPitch: number): Promise<{ blob: Blob; duration: number } | null> => {
+    const token = ++processTokenRef.current;
+    setIsProcessing(true);
+    try {
+      const processed = await processAudio(source, targetSpeed, targetPitch, stretchQuality);
+      if (token !== processTokenRef.current) return null;
+      // Re-processing starts again from the raw render, so earlier edits no longer apply
+      setSentenceSpans(scaleSpans(rawSpansRef.current, processed.length / source.length));
+      setUndoStack([]);
+      return setOutputBuffer(processed);
+    } finally {
+      if (token === processTokenRef.current) setIsProcessing(false);
+    }
+  };
+
+  const publishAudio = async (buffer: AudioBuffer, mode: RenderMode) => {
+    rawBufferRef.current = buffer;
+    rawRenderModeRef.current = mode;
+
+    if (mode !== 'precise') {
+      setSentenceSpans(rawSpansRef.current);
+      setUndoStack([]);
+    }
+    const output = mode === 'precise' ? await renderPrecise(buffer, speed, pitch) : await setOutputBuffer(buffer);
+    if (output) await recordHistory(output.blob, output.duration);
+  };
+
+  const recordHistory = async (audio: Blob, duration: number) => {
+    const settings = historySnapshotRef.current;
+    if (!settings) return;
+
+    const firstLine = settings.script.trim().split('\n')[0];
+    try {
+      await saveHistoryEntry({
+        id: crypto.randomUUID(),
+        name: firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine || 'Untitled',
+        createdAt: Date.now(),
+        duration,
+        audio,
+        settings
+      });
+      setHistoryVersion(v => v + 1);
+    } catch (err) {
+      // History is best-effort; a full quota must not fail the render itself
+      console.error("Failed to save history", err);
+    }
+  };
+
+  const restoreSettings = (settings: GenerationSettings) => {
+    setActiveTab(settings.tab);
+    if (settings.tab === 'single') setScript(settings.script);
+    else setMultiScript(settings.script);
+    setLanguage(settings.language);
+    setSelectedVoice(settings.voice);
+    setStyle(settings.style);
+    setPitch(settings.pitch);
+    setSpeed(settings.speed);
+    setSpeakers(settings.speakers.map(s => ({ ...s })));
+  };
+
+  const buildProject = (): AwaazProject => ({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: projectName,
+    savedAt: new Date().toISOString(),
+    editor: {
+      tab: activeTab,
+      script,
+      multiScript,
+      language,
+      voice: selectedVoice,
+      style,
+      pitch,
+      speed,
+      speakers,
+      conversationMode,
+      turnGap,
+      exactSpeakerProsody,
+      renderMode,
+      stretchQuality,
+      transliterationEnabled,
+      mastering,
+      musicOptions
+    },
+    lexicon
+  });
+
+  /**
+   * Loads a project into the editor. An embedded render is decoded before any
+   * state changes, so the output and its mastering options switch together.
+   */
+  const applyProject = async (project: AwaazProject) => {
+    const audio = project.render ? await decodeProjectAudio(project.render.wav, getAudioContext()) : null;
+
+    const editor = project.editor;
+    setProjectName(project.name);
+    setActiveTab(editor.tab);
+    setScript(editor.script);
+    setMultiScript(editor.multiScript);
+    setLanguage(editor.language);
+    setSelectedVoice(editor.voice);
+    setStyle(editor.style);
+    setPitch(editor.pitch);
+    setSpeed(editor.speed);
+    setSpeakers(editor.speakers.map(s => ({ ...s })));
+    setConversationMode(editor.conversationMode);
+    setTurnGap(editor.turnGap);
+    setExactSpeakerProsody(editor.exactSpeakerProsody);
+    setRenderMode(editor.renderMode);
+    setStretchQuality(editor.stretchQuality);
+    setTransliterationEnabled(editor.transliterationEnabled);
+    setMastering(editor.mastering);
+    setMusicOptions(editor.musicOptions);
+
+    if (project.render && audio) {
+      const { render } = project;
+      // The embedded audio may include edits, so it can't be re-processed
+      // from a raw render; sentences can still be regenerated
+      rawBufferRef.current = null;
+      rawRenderModeRef.current = render.chunkSettings.mode;
+      chunkSettingsRef.current = render.chunkSettings;
+      chunkBuffersRef.current = render.segments.map(() => null);
+      historySnapshotRef.current = render.settings;
+      rawSpansRef.current = render.spans;
+      setChunks(render.segments.map(segment => ({ ...segment, status: 'done' })));
+      setSentenceSpans(render.spans);
+      setUndoStack([]);
+      refreshOutput(audio);
+    }
+  };
+
+  const openProjectFile = async (file: File) => {
+    setError(null);
+    try {
+      const project = parseProject(await file.text());
+      await applyProject(project);
+      // Shared projects bring their pronunciations along
+      if (project.lexicon.length > 0) updateLexicon(mergeLexicon(lexicon, project.lexicon));
+    } catch (err: any) {
+      setError(err.message || "Could not open project file.");
+    }
+  };
+
+  const saveProjectFile = async () => {
+    const project = buildProject();
+    const chunkSettings = chunkSettingsRef.current;
+    const settings = historySnapshotRef.current;
+    try {
+      if (embedAudio && unmasteredBuffer && chunkSettings && settings) {
+        project.render = {
+          wav: await encodeProjectAudio(unmasteredBuffer),
+          spans: sentenceSpans,
+          segments: chunks.map(({ status, error, cached, ...segment }) => segment),
+          chunkSettings,
+          settings
+        };
+      }
+      downloadBlob(new Blob([serializeProject(project)], { type: 'application/json' }), projectFilename(projectName));
+    } catch (err: any) {
+      setError(err.message || "Failed to save project.");
+    }
+  };
+
+  // Restore the last session's editor. Declared before the autosave effect so
+  // the first autosave (of the defaults) is superseded before it fires.
+  useEffect(() => {
+    const saved = loadAutosavedProject();
+    if (saved) applyProject(saved).catch(err => console.warn("Could not restore autosave", err));
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => autosaveProject(buildProject()), 1000);
+    return () => clearTimeout(timer);
+  }, [
+    projectName, activeTab, script, multiScript, language, selectedVoice, style, pitch, speed, speakers,
+    conversationMode, turnGap, exactSpeakerProsody, renderMode, stretchQuality, transliterationEnabled, mastering,
+    musicOptions
+  ]);
+
+  // Re-render locally when the sliders move after a precise generation
+  useEffect(() => {
+    const raw = rawBufferRef.current;
+    if (renderMode !== 'precise' || !raw || rawRenderModeRef.current !== 'precise' || isGenerating) return;
+
+    const timer = setTimeout(() => {
+      renderPrecise(raw, speed, pitch).catch((err: any) => {
+        setError(err.message || "Failed to apply speed and pitch.");
+      });
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [speed, pitch, renderMode, stretchQuality]);
+
+  // Re-master and re-mix the current output when those options change
+  useEffect(() => {
+    if (!unmasteredBuffer || isGenerating) return;
+    const timer = setTimeout(() => refreshOutput(unmasteredBuffer), 250);
+    return () => clearTimeout(timer);
+  }, [mastering, musicBed, musicOptions]);
+
+  const loadMusicBed = async (file: File) => {
+    setIsLoadingMusic(true);
+    setError(null);
+    try {
+      const buffer = await getAudioContext().decodeAudioData(await file.arrayBuffer());
+      setMusicBed({ name: file.name, buffer });
+    } catch (err: any) {
+      setError(err.message || "Could not decode this audio file.");
+    } finally {
+      setIsLoadingMusic(false);
+    }
+  };
+
+  // Waveform edits work on the unmastered output and can be undone
+  const applyEdit = (next: AudioBuffer, nextSpans: SentenceSpan[]) => {
+    if (unmasteredBuffer) setUndoStack(stack => [...stack.slice(-19), { buffer: unmasteredBuffer, spans: sentenceSpans }]);
+    setSentenceSpans(nextSpans);
+    refreshOutput(next);
+  };
+
+  const handleWaveformEdit = (edit: WaveformEdit, start: number, end: number) => {
+    if (!unmasteredBuffer) return;
+    try {
+      switch (edit) {
+        case 'trim': {
+          const kept = remapSpans(sentenceSpans, end, unmasteredBuffer.duration, 0);
+          applyEdit(trimToRegion(unmasteredBuffer, start, end), remapSpans(kept, 0, start, 0));
+          break;
+        }
+        case 'cut':
+          applyEdit(cutRegion(unmasteredBuffer, start, end), remapSpans(sentenceSpans, start, end, 0));
+          break;
+        case 'fadeIn':
+        case 'fadeOut':
+          applyEdit(fadeRegion(unmasteredBuffer, start, end, edit === 'fadeIn' ? 'in' : 'out'), sentenceSpans);
+          break;
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to edit audio.");
+    }
+  };
+
+  const undoEdit = () => {
+    const previous = undoStack[undoStack.length - 1];
+    if (!previous) return;
+    setUndoStack(stack => stack.slice(0, -1));
+    setSentenceSpans(previous.spans);
+    refreshOutput(previous.buffer);
+  };
+
+  /**
+   * Re-synthesizes one sentence with the settings of its chunk and splices it
+   * into the current output in place of the old take.
+   */
+  const regenerateSentence = async (index: number) => {
+    const span = sentenceSpans[index];
+    const chunk = span && chunks[span.chunkIndex];
+    if (!unmasteredBuffer || !chunk) return;
+
+    setRegeneratingSpan(index);
+    setError(null);
+    try {
+      let { buffer: replacement } = await synthesizeChunk({ ...chunk, text: span.text });
+      // Precise renders are neutral, so the new take needs the same local speed and pitch
+      if (rawRenderModeRef.current === 'precise') {
+        replacement = await processAudio(replacement, speed, pitch, stretchQuality);
+      }
+      if (mastering.loudness !== 'off') {
+        replacement = normalizeLoudness(replacement, LOUDNESS_PRESETS[mastering.loudness].targetLufs);
+      }
+      applyEdit(
+        spliceRegion(unmasteredBuffer, span.start, span.end, replacement),
+        remapSpans(sentenceSpans, span.start, span.end, replacement.duration)
+      );
+    } catch (err: any) {
+      setError(err.message || "Failed to regenerate sentence.");
+    } finally {
+      setRegeneratingSpan(null);
+    }
+  };
+
+  const updateChunk = (index: number, patch: Partial<ScriptChunk>) => {
+    setChunks(prev => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  /**
+   * Synthesizes one chunk with the snapshotted settings. Conversation chunks
+   * with several speakers go through the multi-speaker request; single-speaker
+   * chunks use that speaker's voice. `cached` is set when the audio came from
+   * the local cache.
+   */
+  const synthesizeChunk = async (
+    chunk: ScriptChunk,
+    signal?: AbortSignal
+  ): Promise<{ buffer: AudioBuffer; cached: boolean }> => {
+    const settings = chunkSettingsRef.current;
+    if (!settings) throw new Error("Generation settings are missing.");
+
+    // Timed SSML breaks are rendered locally as exact silence
+    if (chunk.silence !== undefined) {
+      return { buffer: createSilence(chunk.silence, getAudioContext().sampleRate), cached: false };
+    }
+
+    const chunkSpeakers = chunk.speakers ?? [];
+    // A lone conversation speaker is voiced with their own direction on top of the run's
+    const speaker = chunkSpeakers.length === 1 ? chunkSpeakers[0] : undefined;
+    const { audio, cached } = chunkSpeakers.length > 1
+      ? await ttsProvider.synthesizeDialogue({
+          dialogue: chunk.text,
+          speakers: chunkSpeakers,
+          speed: settings.speed,
+          pitch: settings.pitch,
+          language: settings.language,
+          lexicon: settings.lexicon
+        }, signal)
+      : await ttsProvider.synthesize({
+          text: chunk.text,
+          style: speaker?.style ?? settings.style,
+          voice: chunk.voice ?? speaker?.voice ?? settings.voice,
+          speed: settings.speed * (speaker?.speed ?? 1),
+          pitch: settings.pitch + (speaker?.pitch ?? 0),
+          language: speaker?.language ?? settings.language,
+          lexicon: settings.lexicon
+        }, signal);
+
+    const buffer = await decodePCMToAudioBuffer(decodeBase64(audio), getAudioContext());
+    // Exact SSML prosody is applied locally on top of the model's render
+    return {
+      buffer: chunk.prosody ? await processAudio(buffer, chunk.prosody.speed, chunk.prosody.pitch, stretchQuality) : buffer,
+      cached
+    };
+  };
+
+  /**
+   * Renders one chunk of the current run into its slot.
+   * Returns null on success, or the error message on failure.
+   */
+  const renderChunk = async (index: number, chunk: ScriptChunk, signal?: AbortSignal): Promise<string | null> => {
+    updateChunk(index, { status: 'rendering', error: undefined, cached: undefined });
+    try {
+      const { buffer, cached } = await synthesizeChunk(chunk, signal);
+      chunkBuffersRef.current[index] = buffer;
+      updateChunk(index, { status: 'done', cached });
+      return null;
+    } catch (err: any) {
+      const message = err.message || "Failed to synthesize chunk.";
+      chunkBuffersRef.current[index] = null;
+      updateChunk(index, { status: 'error', error: message });
+      return message;
+    }
+  };
+
+  // Source sentences of a chunk; conversation chunks are split per dialogue line
+  const chunkSentences = (chunk: ScriptChunk): string[] => {
+    if (chunk.silence !== undefined) return [];
+    if (chunk.speakers) return chunk.text.split('\n').map(line => line.trim()).filter(Boolean);
+    return splitSentences(chunk.text, chunkSettingsRef.current?.language);
+  };
+
+  // Stitches the chunk buffers in script order once every chunk has rendered
+  const assembleChunks = async (pieces: ScriptChunk[]): Promise<boolean> => {
+    const buffers = chunkBuffersRef.current;
+    const settings = chunkSettingsRef.current;
+    if (!settings || buffers.length === 0 || buffers.some(b => !b)) return false;
+
+    // Level each chunk first so different voices and styles sit at the same loudness
+    const preset = mastering.loudness !== 'off' ? LOUDNESS_PRESETS[mastering.loudness] : null;
+    const rendered = (buffers as AudioBuffer[]).map(b => (preset ? normalizeLoudness(b, preset.targetLufs) : b));
+    const sequence = settings.gap > 0
+      ? rendered.flatMap((b, i) => (i === 0 ? [b] : [createSilence(settings.gap, b.sampleRate, b.numberOfChannels), b]))
+      : rendered;
+
+    // Map every sentence to its time range in the stitched audio
+    const offsets = stitchOffsets(sequence);
+    rawSpansRef.current = rendered.flatMap((buffer, chunkIndex) => {
+      const offset = offsets[settings.gap > 0 ? chunkIndex * 2 : chunkIndex];
+      const sentences = chunkSentences(pieces[chunkIndex]);
+      return alignSentences(buffer, sentences).map((range, i) => ({
+        text: sentences[i],
+        start: offset + range.start,
+        end: offset + range.end,
+        chunkIndex
+      }));
+    });
+
+    await publishAudio(stitchAudioBuffers(sequence), settings.mode);
+    return true;
+  };
+
+  // Starts a cancellable run; the Cancel button aborts the returned signal
+  const beginRun = (): AbortSignal => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsGenerating(true);
     setError(null);
-    
+    return controller.signal;
+  };
+
+  const endRun = () => {
+    abortControllerRef.current = null;
+    setIsGenerating(false);
+  };
+
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+    stopStream();
+  };
+
+  const stopStream = () => {
+    streamPlayerRef.current?.stop();
+    streamPlayerRef.current = null;
+  };
+
+  /**
+   * Queues a rendered chunk on the stream, with the same gap and speed/pitch
+   * processing it gets in the final mix. Returns its start on the context clock.
+   */
+  const streamChunk = async (player: StreamingPlayer, index: number): Promise<number | null> => {
+    const settings = chunkSettingsRef.current;
+    let buffer = chunkBuffersRef.current[index];
+    if (!settings || !buffer) return null;
+    if (settings.mode === 'precise') buffer = await processAudio(buffer, speed, pitch, stretchQuality);
+    if (mastering.loudness !== 'off') buffer = normalizeLoudness(buffer, LOUDNESS_PRESETS[mastering.loudness].targetLufs);
+    // The player may have been stopped while this chunk was processing
+    if (player !== streamPlayerRef.current) return null;
+    return player.enqueue(buffer, index === 0 ? 0 : settings.gap);
+  };
+
+  const retryChunk = async (index: number) => {
+    if (isGenerating) return;
+    const signal = beginRun();
+
     try {
-      let base64Data: string | undefined;
+      const failure = await renderChunk(index, chunks[index], signal);
+      if (failure) throw new Error(failure);
+      if (!(await assembleChunks(chunks))) {
+        const remaining = chunkBuffersRef.current.filter(b => !b).length;
+        setError(`${remaining} chunk${remaining === 1 ? '' : 's'} still need to be retried.`);
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to generate audio.");
+    } finally {
+      endRun();
+    }
+  };
+
+  /**
+   * Renders the active tab. `scriptOverride` carries a single-speaker script the
+   * user already reviewed (e.g. in the transliteration preview) so it isn't
+   * shown again.
+   */
+  const generate = async (scriptOverride?: string) => {
+    if (isGenerating) return;
+
+    if (
+      scriptOverride === undefined &&
+      activeTab === 'single' &&
+      transliterationEnabled &&
+      isTransliterable(language) &&
+      containsRomanText(script)
+    ) {
+      setTransliterationSource(script);
+      return;
+    }
+
+    const singleScript = scriptOverride ?? script;
+    // Chunks and history keep their own copies, so later edits to a speaker don't reach them
+    const speakerSnapshot = speakers.map(s => ({ ...s }));
+    const signal = beginRun();
+
+    try {
+      let pieces: ScriptChunk[];
       if (activeTab === 'single') {
-        if (!script.trim()) throw new Error("Please enter some text below.");
-        base64Data = await generateTTSAudio(script, style, selectedVoice, speed, pitch);
+        if (!singleScript.trim()) throw new Error("Please enter some text below.");
+
+        if (containsSsml(singleScript)) {
+          const { segments, errors } = parseSsml(singleScript, language);
+          if (errors.length > 0) throw new Error("Fix the highlighted SSML before generating.");
+
+          pieces = segments.flatMap((segment): ScriptChunk[] => {
+            if (segment.kind === 'silence') {
+              return [{ text: `<break ${segment.seconds}s>`, silence: segment.seconds, status: 'pending' }];
+            }
+            const prosody = segment.speed !== undefined || segment.pitch !== undefined
+              ? { speed: segment.speed ?? 1, pitch: segment.pitch ?? 0 }
+              : undefined;
+            return chunkScript(segment.text, DEFAULT_CHUNK_SIZE, language)
+              .map(text => ({ text, voice: segment.voice, prosody, status: 'pending' }));
+          });
+        } else {
+          pieces = chunkScript(singleScript, DEFAULT_CHUNK_SIZE, language).map(text => ({ text, status: 'pending' }));
+        }
       } else {
         if (!multiScript.trim()) throw new Error("Please enter dialogue below.");
-        base64Data = await generateMultiTTSAudio(multiScript, speakers, speed, pitch);
+        if (parsedDialogue.issues.length > 0) {
+          throw new Error("Fix the highlighted dialogue lines before generating.");
+        }
+        // Exact speaker prosody renders every turn alone and applies the speaker's
+        // speed and pitch locally instead of asking the model for them
+        const mode = exactSpeakerProsody ? 'per-turn' : conversationMode;
+        pieces = planDialogueSegments(parsedDialogue.turns, speakerSnapshot, mode, ttsProvider.capabilities.maxSpeakers)
+          .map((segment): ScriptChunk => {
+            const [speaker] = segment.speakers;
+            if (!exactSpeakerProsody || !speaker || ((speaker.speed ?? 1) === 1 && (speaker.pitch ?? 0) === 0)) {
+              return { text: segment.text, speakers: segment.speakers, status: 'pending' };
+            }
+            const { speed: turnSpeed = 1, pitch: turnPitch = 0, ...direction } = speaker;
+            return { text: segment.text, speakers: [direction], prosody: { speed: turnSpeed, pitch: turnPitch }, status: 'pending' };
+          });
       }
 
-      if (base64Data) {
-        const ctx = getAudioContext();
-        const pcmBytes = decodeBase64(base64Data);
-        const buffer = await decodePCMToAudioBuffer(pcmBytes, ctx);
-        rawBufferRef.current = buffer;
-        
-        const wavBlob = audioBufferToWav(buffer);
-        const newUrl = URL.createObjectURL(wavBlob);
-        
-        // Revoke old URL if it exists
-        if (audioUrl) URL.revokeObjectURL(audioUrl);
-        setAudioUrl(newUrl);
+      historySnapshotRef.current = {
+        tab: activeTab,
+        script: activeTab === 'single' ? singleScript : multiScript,
+        voice: selectedVoice,
+        style,
+        language,
+        pitch,
+        speed,
+        speakers: speakerSnapshot.map(s => ({ ...s }))
+      };
+
+      // In precise mode the model renders neutral and the sliders are applied locally
+      const precise = renderMode === 'precise';
+      chunkSettingsRef.current = {
+        style: activeTab === 'single' ? style : '',
+        voice: selectedVoice,
+        speed: precise ? 1.0 : speed,
+        pitch: precise ? 0 : pitch,
+        mode: renderMode,
+        gap: activeTab === 'multi' ? turnGap : 0,
+        lexicon,
+        language
+      };
+      chunkBuffersRef.current = pieces.map(() => null);
+      setChunks(pieces);
+
+      // Multi-chunk runs can start playing before the last chunk is back
+      stopStream();
+      setTimeToFirstAudio(null);
+      const startedAt = performance.now();
+      const player = streamPlayback && pieces.length > 1 ? new StreamingPlayer(getAudioContext()) : null;
+      streamPlayerRef.current = player;
+      // Chunks are queued in order off the render loop, so processing never delays the next request
+      let streamQueue = Promise.resolve();
+
+      // Render sequentially and keep going past failures so only the
+      // failed chunks need a retry
+      const failures: string[] = [];
+      for (let i = 0; i < pieces.length; i++) {
+        const failure = await renderChunk(i, pieces[i], signal);
+        if (failure) failures.push(failure);
+        if (signal.aborted) throw new Error("Generation cancelled.");
+
+        // A failed chunk would leave a hole, so the stream stops at the first failure
+        if (player && failures.length === 0) {
+          streamQueue = streamQueue
+            .then(() => streamChunk(player, i))
+            .then(start => {
+              if (i === 0 && start !== null) {
+                const ctx = getAudioContext();
+                setTimeToFirstAudio(performance.now() - startedAt + Math.max(0, start - ctx.currentTime) * 1000);
+              }
+            })
+            .catch(err => console.warn("Streaming playback failed", err));
+        }
+      }
+
+      if (failures.length === 1 && pieces.length === 1) throw new Error(failures[0]);
+      if (failures.length > 0) {
+        throw new Error(`${failures.length} of ${pieces.length} chunks failed. Retry them individually above.`);
       }
+      await assembleChunks(pieces);
     } catch (err: any) {
       setError(err.message || "Failed to generate audio.");
     } finally {
-      setIsGenerating(false);
+      endRun();
+    }
+  };
+
+  const updateShortcuts = (next: ShortcutMap) => {
+    setShortcuts(next);
+    saveShortcuts(next);
+  };
+
+  const togglePlayback = () => {
+    const audio = audioElementRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch((err: any) => setError(err.message || "Playback failed."));
+    else audio.pause();
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    switch (action) {
+      case 'generate':
+        if (workspace === 'editor') generate();
+        break;
+      case 'cancel':
+        cancelGeneration();
+        break;
+      case 'togglePlayback':
+        togglePlayback();
+        break;
+      case 'previewVoice':
+        if (activeTab === 'multi' && speakers[0]) previewSpeaker(speakers[0]);
+        else handlePreviewVoice(selectedVoice);
+        break;
+      case 'singleTab':
+      case 'multiTab':
+        setActiveTab(action === 'singleTab' ? 'single' : 'multi');
+        setWorkspace('editor');
+        break;
+      case 'batchTab':
+        setActiveTab('single');
+        setWorkspace('batch');
+        break;
+      case 'insertTag':
+        if (workspace !== 'editor') break;
+        handleInsertTag(TAGS[nextTagRef.current % TAGS.length], activeTab);
+        nextTagRef.current++;
+        break;
+      case 'commandPalette':
+        setShowPalette(true);
+        break;
+      case 'showShortcuts':
+        setShowShortcutsHelp(true);
+        break;
     }
   };
 
+  // Read through a ref so the window listener always sees the latest state
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    // Dialogs own the keyboard while they are open
+    if (showPalette || showShortcutsHelp || showLexicon || showPresets || galleryTarget !== null || transliterationSource !== null) return;
+    const combo = comboFromEvent(e);
+    const action = combo && findShortcut(shortcuts, combo);
+    if (!combo || !action) return;
+
+    const target = e.target as HTMLElement;
+    const typing = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+    if (typing && !worksWhileTyping(combo)) return;
+    // Leave the key alone when there is nothing to cancel
+    if (action === 'cancel' && !isGenerating) return;
+
+    e.preventDefault();
+    runShortcut(action);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const paletteCommands = (): PaletteCommand[] => [
+    ...(Object.keys(SHORTCUT_LABELS) as ShortcutAction[])
+      .filter(action => action !== 'commandPalette')
+      .map(action => ({
+        id: `action-${action}`,
+        label: SHORTCUT_LABELS[action],
+        group: 'Action' as const,
+        shortcut: formatCombo(shortcuts[action]),
+        run: () => runShortcut(action)
+      })),
+    { id: 'action-open', label: 'Open project', group: 'Action', run: () => projectInputRef.current?.click() },
+    { id: 'action-save', label: 'Save project', group: 'Action', run: saveProjectFile },
+    { id: 'action-gallery', label: 'Browse voices', group: 'Action', run: () => setGalleryTarget('single') },
+    { id: 'action-lexicon', label: 'Pronunciation lexicon', group: 'Action', run: () => setShowLexicon(true) },
+    { id: 'action-presets', label: 'Manage voice presets', group: 'Action', run: () => setShowPresets(true) },
+    ...ttsProvider.listVoices().map(voice => ({
+      id: `voice-${voice}`,
+      label: voice,
+      group: 'Voice' as const,
+      detail: `${VOICE_DETAILS[voice].gender} · ${VOICE_DETAILS[voice].tone.join(', ')}`,
+      run: () => chooseVoice(voice)
+    })),
+    ...Object.values(VoiceStyle).map(st => ({
+      id: `style-${st}`,
+      label: st,
+      group: 'Style' as const,
+      run: () => setStyle(st)
+    })),
+    ...presets.map(preset => ({
+      id: `preset-${preset.id}`,
+      label: preset.name,
+      group: 'Preset' as const,
+      detail: `${preset.language} · ${preset.voice} · ${preset.style}`,
+      run: () => applyPreset(preset)
+    }))
+  ];
+
+  const completedChunks = chunks.filter(c => c.status === 'done').length;
+  // Timed breaks are rendered locally, so only speech chunks can come from the cache
+  const speechChunks = chunks.filter(c => c.silence === undefined).length;
+  const cachedChunks = chunks.filter(c => c.cached).length;
+
   return (
     <div className="min-h-screen flex flex-col p-4 md:p-8 max-w-[1400px] mx-auto bg-black">
       {/* App Header */}
@@ -140,6 +1164,14 @@ const App: React.FC = () => {
           <h1 className="text-3xl font-black tracking-tighter text-white">
             Awaaz<span className="accent-jade">AI</span>
           </h1>
+          {ttsProvider.id !== 'gemini' && (
+            <span
+              title="Set TTS_PROVIDER=gemini in .env.local to use the real voices"
+              className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px] uppercase tracking-widest"
+            >
+              {ttsProvider.name}
+            </span>
+          )}
         </div>
         <p className="text-celestial text-sm font-medium opacity-70">
           Turn text into lifelike audio instantly.
@@ -147,80 +1179,351 @@ const App: React.FC = () => {
       </header>
 
       {/* Navigation Tabs */}
-      <nav className="flex items-center gap-3 mb-6">
+      <nav className="flex flex-wrap items-center gap-3 mb-6">
         <button 
-          onClick={() => setActiveTab('single')}
-          className={`px-6 py-2.5 rounded-full text-sm font-bold transition-all ${activeTab === 'single' ? 'bg-jade text-black' : 'bg-navy text-white hover:bg-opacity-80'}`}
+          onClick={() => { setActiveTab('single'); setWorkspace('editor'); }}
+          className={`px-6 py-2.5 rounded-full text-sm font-bold transition-all ${workspace === 'editor' && activeTab === 'single' ? 'bg-jade text-black' : 'bg-navy text-white hover:bg-opacity-80'}`}
         >
           Single Speaker
         </button>
         <button 
-          onClick={() => setActiveTab('multi')}
-          className={`px-6 py-2.5 rounded-full text-sm font-bold transition-all ${activeTab === 'multi' ? 'bg-jade text-black' : 'bg-navy text-white hover:bg-opacity-80'}`}
+          onClick={() => { setActiveTab('multi'); setWorkspace('editor'); }}
+          className={`px-6 py-2.5 rounded-full text-sm font-bold transition-all ${workspace === 'editor' && activeTab === 'multi' ? 'bg-jade text-black' : 'bg-navy text-white hover:bg-opacity-80'}`}
         >
           Conversation
         </button>
+        <button 
+          onClick={() => { setActiveTab('single'); setWorkspace('batch'); }}
+          className={`px-6 py-2.5 rounded-full text-sm font-bold transition-all ${workspace === 'batch' ? 'bg-jade text-black' : 'bg-navy text-white hover:bg-opacity-80'}`}
+        >
+          Batch
+        </button>
+
+        <div className="ml-auto flex items-center gap-2">
+          <input
+            value={projectName}
+            onChange={(e) => setProjectName(e.target.value)}
+            placeholder="Project name"
+            title="Project name"
+            className="w-40 bg-transparent text-xs font-bold text-white outline-none border-b border-white/10 focus:border-jade pb-1"
+          />
+          <button
+            onClick={() => projectInputRef.current?.click()}
+            className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+          >
+            <i className="fa-solid fa-folder-open mr-1"></i> Open
+          </button>
+          <button
+            onClick={saveProjectFile}
+            className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+          >
+            <i className="fa-solid fa-floppy-disk mr-1"></i> Save
+          </button>
+          {unmasteredBuffer && (
+            <label className="flex items-center gap-1 text-[10px] font-bold text-celestial cursor-pointer" title="Embed the current audio in the project file">
+              <input
+                type="checkbox"
+                checked={embedAudio}
+                onChange={(e) => setEmbedAudio(e.target.checked)}
+                className="accent-[#3DE1AE]"
+              />
+              Audio
+            </label>
+          )}
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) openProjectFile(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => setShowShortcutsHelp(true)}
+            title={`Keyboard shortcuts (${formatCombo(shortcuts.showShortcuts)}) · Command palette (${formatCombo(shortcuts.commandPalette)})`}
+            className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+          >
+            <i className="fa-solid fa-keyboard"></i>
+          </button>
+        </div>
       </nav>
 
       <div className="flex flex-col xl:flex-row gap-6 flex-1">
+        {workspace === 'batch' && (
+          <BatchPanel
+            defaultVoice={selectedVoice}
+            defaultStyle={style}
+            defaultLanguage={language}
+            lexicon={lexicon}
+            getAudioContext={getAudioContext}
+          />
+        )}
+
         {/* Main Workspace (Editor) */}
-        <main className="flex-1 flex flex-col glass-panel overflow-hidden shadow-xl">
-          <div className="p-6 flex-1 flex flex-col bg-black/40">
-            <textarea 
-              className="w-full flex-1 bg-transparent border-none focus:ring-0 outline-none resize-none text-white text-lg leading-relaxed custom-scrollbar placeholder:text-zinc-700 font-medium"
-              placeholder={activeTab === 'single' ? "Type anything here..." : "Joe: Hi there!\nJane: Hello Joe!"}
-              value={activeTab === 'single' ? script : multiScript}
-              onChange={(e) => activeTab === 'single' ? setScript(e.target.value) : setMultiScript(e.target.value)}
-            />
+        {workspace === 'editor' && (
+          <main className="flex-1 flex flex-col glass-panel overflow-hidden shadow-xl">
+            <div className="p-6 flex-1 flex flex-col bg-black/40">
+              <div className="relative flex-1 flex">
+                {/* Highlights problem lines behind the transparent textarea */}
+                {issueLines.size > 0 && (
+                  <div
+                    ref={editorBackdropRef}
+                    aria-hidden
+                    dir={activeTab === 'single' ? LANGUAGE_DETAILS[language].direction : 'auto'}
+                    className="absolute inset-0 overflow-hidden pointer-events-none text-transparent text-lg leading-relaxed font-medium whitespace-pre-wrap break-words"
+                  >
+                    {(activeTab === 'single' ? script : multiScript).split('\n').map((text, idx) => (
+                      <div key={idx} className={issueLines.has(idx + 1) ? 'bg-red-500/15 rounded-sm' : ''}>
+                        {text || '\u00a0'}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <textarea 
+                  className="relative w-full flex-1 bg-transparent border-none focus:ring-0 outline-none resize-none text-white text-lg leading-relaxed custom-scrollbar placeholder:text-zinc-700 font-medium"
+                  placeholder={activeTab === 'single' ? "Type anything here..." : "Joe: Hi there!\nJane: Hello Joe!"}
+                  dir={activeTab === 'single' ? LANGUAGE_DETAILS[language].direction : 'auto'}
+                  value={activeTab === 'single' ? script : multiScript}
+                  onChange={(e) => activeTab === 'single' ? setScript(e.target.value) : setMultiScript(e.target.value)}
+                  onScroll={(e) => {
+                    if (editorBackdropRef.current) editorBackdropRef.current.scrollTop = e.currentTarget.scrollTop;
+                  }}
+                />
+              </div>
+
+              {/* SSML validation */}
+              {activeTab === 'single' && ssmlResult && ssmlResult.errors.length > 0 && (
+                <div className="mt-4 p-3 bg-red-500/5 border border-red-500/20 rounded-lg space-y-2">
+                  <span className="text-[10px] font-black text-red-400 uppercase tracking-widest">
+                    {ssmlResult.errors.length} SSML error{ssmlResult.errors.length === 1 ? '' : 's'}
+                  </span>
+                  <div className="space-y-1 max-h-[120px] overflow-y-auto custom-scrollbar pr-1">
+                    {ssmlResult.errors.map((err, idx) => (
+                      <div key={idx} className="flex items-center gap-3 text-xs">
+                        <span className="w-12 text-[10px] font-black text-celestial opacity-60">Line {err.line}</span>
+                        <span className="flex-1 text-red-400">{err.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Dialogue validation */}
+              {activeTab === 'multi' && parsedDialogue.issues.length > 0 && (
+                <div className="mt-4 p-3 bg-red-500/5 border border-red-500/20 rounded-lg space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-black text-red-400 uppercase tracking-widest">
+                      {parsedDialogue.issues.length} dialogue issue{parsedDialogue.issues.length === 1 ? '' : 's'}
+                    </span>
+                    {unknownSpeakers.length > 0 && (
+                      <button
+                        onClick={() => addSpeakers(unknownSpeakers)}
+                        className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+                      >
+                        Add all missing speakers
+                      </button>
+                    )}
+                  </div>
+                  <div className="space-y-1 max-h-[120px] overflow-y-auto custom-scrollbar pr-1">
+                    {parsedDialogue.issues.map((issue, idx) => (
+                      <div key={idx} className="flex items-center gap-3 text-xs">
+                        <span className="w-12 text-[10px] font-black text-celestial opacity-60">Line {issue.line}</span>
+                        <span className="flex-1 text-red-400">{issue.message}</span>
+                        {issue.suggestion && (
+                          <button
+                            onClick={() => applySpeakerSuggestion(issue.line, issue.suggestion!)}
+                            className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+                          >
+                            Use {issue.suggestion}
+                          </button>
+                        )}
+                        {issue.kind === 'unknown-speaker' && issue.speaker && (
+                          <button
+                            onClick={() => addSpeakers([issue.speaker!])}
+                            className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+                          >
+                            Add {issue.speaker}
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             
-            <div className="flex flex-wrap gap-2 mt-4 pt-4 border-t border-navy">
-              {TAGS.map(tag => (
-                <button 
-                  key={tag}
-                  onClick={() => handleInsertTag(tag, activeTab)}
-                  className="px-3 py-1 bg-navy border border-transparent rounded-md text-[10px] font-bold text-celestial hover:border-jade hover:text-jade transition-all active:scale-95 whitespace-nowrap"
-                >
-                  {tag}
-                </button>
-              ))}
+              <div className="flex flex-wrap gap-2 mt-4 pt-4 border-t border-navy">
+                {TAGS.map(tag => (
+                  <button 
+                    key={tag}
+                    onClick={() => handleInsertTag(tag, activeTab)}
+                    className="px-3 py-1 bg-navy border border-transparent rounded-md text-[10px] font-bold text-celestial hover:border-jade hover:text-jade transition-all active:scale-95 whitespace-nowrap"
+                  >
+                    {tag}
+                  </button>
+                ))}
+                {activeTab === 'single' && SSML_SNIPPETS.map(snippet => (
+                  <button 
+                    key={snippet}
+                    onClick={() => handleInsertTag(snippet, 'single')}
+                    className="px-3 py-1 bg-navy/40 border border-navy rounded-md text-[10px] font-mono text-celestial/80 hover:border-jade hover:text-jade transition-all active:scale-95 whitespace-nowrap"
+                  >
+                    {snippet}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
 
-          {/* Audio Output Area */}
-          {audioUrl && (
-            <div className="bg-navy/50 p-6 border-t border-jade/10">
-               <div className="flex flex-col md:flex-row justify-between items-center gap-4">
-                  <div className="flex items-center gap-3">
-                    <i className="fa-solid fa-circle-check text-jade text-sm"></i>
-                    <span className="text-sm font-bold text-jade">Audio Ready</span>
+            {/* Chunk Progress (long-form scripts and segmented conversations) */}
+            {chunks.length > 1 && (
+              <div className="bg-black/60 p-6 border-t border-navy space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">
+                    {activeTab === 'single' ? 'Chunks' : 'Segments'}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {isGenerating && timeToFirstAudio !== null && (
+                      <span className="text-[10px] font-bold text-jade" title="Streaming finished chunks while the rest render">
+                        <i className="fa-solid fa-volume-high mr-1"></i>Playing · first audio in {(timeToFirstAudio / 1000).toFixed(1)}s
+                      </span>
+                    )}
+                    <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]">{completedChunks}/{chunks.length}</span>
                   </div>
+                </div>
+                <div className="h-1 bg-navy rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-jade transition-all"
+                    style={{ width: `${(completedChunks / chunks.length) * 100}%` }}
+                  />
+                </div>
+                <div className="space-y-1 max-h-[160px] overflow-y-auto custom-scrollbar pr-1">
+                  {chunks.map((chunk, idx) => (
+                    <div key={idx} className="flex items-center gap-3 text-xs">
+                      <span className="w-6 text-[10px] font-black text-celestial opacity-60">{idx + 1}</span>
+                      {chunk.status === 'done' && (
+                        <i
+                          className={`fa-solid ${chunk.cached ? 'fa-database' : 'fa-circle-check'} text-jade text-[10px]`}
+                          title={chunk.cached ? 'From cache' : undefined}
+                        ></i>
+                      )}
+                      {chunk.status === 'rendering' && <i className="fa-solid fa-spinner fa-spin text-jade text-[10px]"></i>}
+                      {chunk.status === 'pending' && <i className="fa-regular fa-circle text-celestial opacity-40 text-[10px]"></i>}
+                      {chunk.status === 'error' && <i className="fa-solid fa-circle-exclamation text-red-400 text-[10px]"></i>}
+                      <span
+                        className={`flex-1 truncate ${chunk.status === 'error' ? 'text-red-400' : 'text-white/60'}`}
+                        title={chunk.error || chunk.text}
+                      >
+                        {chunk.text}
+                      </span>
+                      {chunk.status === 'error' && (
+                        <button
+                          onClick={() => retryChunk(idx)}
+                          disabled={isGenerating}
+                          className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Audio Output Area */}
+            {audioUrl && (
+              <div className="bg-navy/50 p-6 border-t border-jade/10">
+                 <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+                    <div className="flex items-center gap-3">
+                      <i className="fa-solid fa-circle-check text-jade text-sm"></i>
+                      <span className="text-sm font-bold text-jade">Audio Ready</span>
+                      {loudness && (
+                        <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]" title="Integrated loudness · true peak">
+                          {isFinite(loudness.integrated) ? `${loudness.integrated.toFixed(1)} LUFS` : 'Silent'} · {loudness.truePeak.toFixed(1)} dBTP
+                        </span>
+                      )}
+                      {normalizedPreset !== 'off' && (
+                        <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]" title={LOUDNESS_PRESETS[normalizedPreset].label}>
+                          <i className="fa-solid fa-sliders mr-1"></i>
+                          Normalized to {LOUDNESS_PRESETS[normalizedPreset].targetLufs} LUFS
+                        </span>
+                      )}
+                      {timeToFirstAudio !== null && (
+                        <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]" title="Time from Generate until streamed playback started">
+                          <i className="fa-solid fa-forward-fast mr-1"></i>
+                          {(timeToFirstAudio / 1000).toFixed(1)}s to first audio
+                        </span>
+                      )}
+                      {cachedChunks > 0 && (
+                        <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]" title="Served from the local audio cache, no API call made">
+                          <i className="fa-solid fa-database mr-1"></i>
+                          {cachedChunks === speechChunks ? 'Cached' : `${cachedChunks}/${speechChunks} cached`}
+                        </span>
+                      )}
+                    </div>
                   
-                  <div className="flex items-center gap-3 w-full md:w-auto">
-                    <audio 
-                      key={audioUrl}
-                      controls 
-                      className="flex-1 min-w-[200px] h-10 rounded-full"
-                      src={audioUrl}
-                    />
-                    <a 
-                      href={audioUrl} 
-                      download="awaaz_ai_audio.wav"
-                      className="p-2.5 bg-celestial text-black rounded-full hover:scale-105 transition-transform"
-                      title="Download"
-                    >
-                      <i className="fa-solid fa-download"></i>
-                    </a>
-                  </div>
-               </div>
-            </div>
-          )}
+                    <div className="flex items-center gap-3 w-full md:w-auto">
+                      <audio 
+                        key={audioUrl}
+                        ref={audioElementRef}
+                        onPlay={stopStream}
+                        controls 
+                        className="flex-1 min-w-[200px] h-10 rounded-full"
+                        src={audioUrl}
+                        onTimeUpdate={(e) => setPlaybackTime(e.currentTarget.currentTime)}
+                      />
+                      {outputBuffer && (
+                        <ExportMenu
+                          buffer={outputBuffer}
+                          script={historySnapshotRef.current?.script ?? ''}
+                          metadata={exportMetadata(historySnapshotRef.current)}
+                        />
+                      )}
+                    </div>
+                 </div>
 
-          {error && (
-            <div className="p-4 bg-red-500/10 text-red-400 text-sm font-bold border-t border-red-500/20 flex items-center gap-2">
-              <i className="fa-solid fa-circle-exclamation"></i> {error}
-            </div>
-          )}
-        </main>
+                 {captionCues.length > 0 && (
+                   <div className="mt-4 pt-4 border-t border-navy/50">
+                     <CaptionTrack
+                       cues={captionCues}
+                       currentTime={playbackTime}
+                       direction={LANGUAGE_DETAILS[historySnapshotRef.current?.language ?? language].direction}
+                       script={historySnapshotRef.current?.script ?? ''}
+                       onSeek={(seconds) => {
+                         const audio = audioElementRef.current;
+                         if (!audio) return;
+                         audio.currentTime = seconds;
+                         audio.play().catch((err: any) => setError(err.message || "Playback failed."));
+                       }}
+                     />
+                   </div>
+                 )}
+
+                 {unmasteredBuffer && (
+                   <div className="mt-4 pt-4 border-t border-navy/50">
+                     <WaveformEditor
+                       buffer={unmasteredBuffer}
+                       spans={sentenceSpans}
+                       canUndo={undoStack.length > 0}
+                       regeneratingSpan={regeneratingSpan}
+                       onEdit={handleWaveformEdit}
+                       onUndo={undoEdit}
+                       onRegenerate={regenerateSentence}
+                     />
+                   </div>
+                 )}
+              </div>
+            )}
+
+            {error && (
+              <div className="p-4 bg-red-500/10 text-red-400 text-sm font-bold border-t border-red-500/20 flex items-center gap-2">
+                <i className="fa-solid fa-circle-exclamation"></i> {error}
+              </div>
+            )}
+          </main>
+        )}
 
         {/* Sidebar (Settings) */}
         <aside className="w-full xl:w-[350px] flex flex-col gap-6">
@@ -254,11 +1557,23 @@ const App: React.FC = () => {
                   <div className="grid grid-cols-1 gap-2">
                     <select 
                       value={language}
-                      onChange={(e) => setLanguage(e.target.value as Language)}
+                      onChange={(e) => handleLanguageChange(e.target.value as Language)}
                       className="w-full bg-navy/40 border border-navy/50 rounded-lg px-4 py-2.5 text-xs text-white font-bold outline-none"
                     >
                       {Object.values(Language).map(lang => <option key={lang} value={lang}>{lang}</option>)}
                     </select>
+
+                    {isTransliterable(language) && (
+                      <label className="flex items-center gap-2 text-[10px] font-bold text-celestial cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={transliterationEnabled}
+                          onChange={(e) => setTransliterationEnabled(e.target.checked)}
+                          className="accent-[#3DE1AE]"
+                        />
+                        Convert Roman {language === Language.URDU ? 'Urdu' : 'Hinglish'} to native script
+                      </label>
+                    )}
                     
                     <div className="flex gap-2">
                       <select 
@@ -267,7 +1582,7 @@ const App: React.FC = () => {
                         className="flex-1 bg-navy/40 border border-navy/50 rounded-lg px-4 py-2.5 text-xs text-jade font-black outline-none"
                       >
                         {filteredVoices.map(v => (
-                          <option key={v} value={v}>{v} ({VOICE_DETAILS[v].gender})</option>
+                          <option key={v} value={v}>{v} ({VOICE_DETAILS[v].gender}, {VOICE_DETAILS[v].tone[0]})</option>
                         ))}
                       </select>
                       <button 
@@ -282,6 +1597,13 @@ const App: React.FC = () => {
                           <i className="fa-solid fa-play text-xs"></i>
                         )}
                       </button>
+                      <button
+                        onClick={() => setGalleryTarget('single')}
+                        title="Browse Voices"
+                        className="w-10 h-10 flex items-center justify-center bg-navy/50 border border-navy/50 rounded-lg text-jade hover:bg-jade hover:text-black transition-all"
+                      >
+                        <i className="fa-solid fa-table-cells-large text-xs"></i>
+                      </button>
                     </div>
                   </div>
                 ) : (
@@ -294,26 +1616,35 @@ const App: React.FC = () => {
                              value={s.name}
                              placeholder="Speaker Name"
                              onChange={(e) => {
-                               const ns = [...speakers];
-                               ns[idx].name = e.target.value;
-                               setSpeakers(ns);
+                               const name = e.target.value;
+                               setSpeakers(prev => prev.map((sp, i) => (i === idx ? { ...sp, name } : sp)));
                              }}
                            />
+                           <button
+                             onClick={() => removeSpeaker(idx)}
+                             disabled={speakers.length <= 1}
+                             title="Remove Speaker"
+                             className="text-celestial opacity-40 hover:opacity-100 hover:text-red-400 transition-all disabled:opacity-10"
+                           >
+                             <i className="fa-solid fa-xmark text-xs"></i>
+                           </button>
                          </div>
                          <div className="flex gap-2">
                             <select 
                                 value={s.voice}
                                 onChange={(e) => {
-                                  const ns = [...speakers];
-                                  ns[idx].voice = e.target.value as Voice;
-                                  setSpeakers(ns);
+                                  const voice = e.target.value as Voice;
+                                  setSpeakers(prev => prev.map((sp, i) => (i === idx ? { ...sp, voice, presetId: undefined } : sp)));
                                 }}
                                 className="flex-1 bg-black/40 rounded-md px-2 py-1.5 text-[10px] text-jade font-bold outline-none"
                               >
-                                {Object.values(Voice).map(v => <option key={v} value={v}>{v}</option>)}
+                                {/* Keep the current voice listed even when the gender filter hides it */}
+                                {(filteredVoices.includes(s.voice) ? filteredVoices : [s.voice, ...filteredVoices]).map(v => (
+                                  <option key={v} value={v}>{v}</option>
+                                ))}
                             </select>
                             <button 
-                              onClick={() => handlePreviewVoice(s.voice)}
+                              onClick={() => previewSpeaker(s)}
                               disabled={!!previewingVoice}
                               title="Preview Voice"
                               className="w-8 h-8 flex items-center justify-center bg-navy/50 rounded-md text-jade hover:bg-jade hover:text-black transition-all disabled:opacity-50"
@@ -324,19 +1655,156 @@ const App: React.FC = () => {
                                 <i className="fa-solid fa-play text-[10px]"></i>
                               )}
                             </button>
+                            <button
+                              onClick={() => setGalleryTarget(idx)}
+                              title="Browse Voices"
+                              className="w-8 h-8 flex items-center justify-center bg-navy/50 rounded-md text-jade hover:bg-jade hover:text-black transition-all"
+                            >
+                              <i className="fa-solid fa-table-cells-large text-[10px]"></i>
+                            </button>
+                         </div>
+                         <select
+                           value={s.presetId ?? ''}
+                           onChange={(e) => assignSpeakerPreset(idx, e.target.value)}
+                           className="w-full bg-black/40 rounded-md px-2 py-1.5 text-[10px] text-white font-bold outline-none"
+                         >
+                           <option value="">No Preset</option>
+                           {presets
+                             .filter(p => !s.language || p.language === s.language || p.id === s.presetId)
+                             .map(p => <option key={p.id} value={p.id}>{p.name} ({p.voice})</option>)}
+                         </select>
+                         <input
+                           list="speaker-styles"
+                           value={s.style ?? ''}
+                           placeholder="Style, e.g. Whispering"
+                           onChange={(e) => updateSpeakerDirection(idx, { style: e.target.value || undefined })}
+                           className="w-full bg-black/40 rounded-md px-2 py-1.5 text-[10px] text-white font-bold outline-none"
+                         />
+                         <div className="grid grid-cols-2 gap-3">
+                           <label className="flex items-center gap-2 text-[10px] font-bold text-celestial" title="Pitch, added to the global pitch">
+                             <input
+                               type="range" min="-10" max="10" step="0.5"
+                               value={s.pitch ?? 0}
+                               onChange={(e) => updateSpeakerDirection(idx, { pitch: parseFloat(e.target.value) })}
+                               className="flex-1 min-w-0"
+                             />
+                             <span className="w-7 text-right text-jade">{(s.pitch ?? 0) > 0 ? `+${s.pitch}` : s.pitch ?? 0}</span>
+                           </label>
+                           <label className="flex items-center gap-2 text-[10px] font-bold text-celestial" title="Speed, relative to the global speed">
+                             <input
+                               type="range" min="0.5" max="2.0" step="0.1"
+                               value={s.speed ?? 1}
+                               onChange={(e) => updateSpeakerDirection(idx, { speed: parseFloat(e.target.value) })}
+                               className="flex-1 min-w-0"
+                             />
+                             <span className="w-7 text-right text-jade">{(s.speed ?? 1).toFixed(1)}x</span>
+                           </label>
                          </div>
+                         <select
+                           value={s.language ?? ''}
+                           onChange={(e) => {
+                             const language = (e.target.value || undefined) as Language | undefined;
+                             setSpeakers(prev => prev.map((sp, i) => (i === idx ? { ...sp, language } : sp)));
+                           }}
+                           className="w-full bg-black/40 rounded-md px-2 py-1.5 text-[10px] text-white font-bold outline-none"
+                         >
+                           <option value="">Any Language</option>
+                           {Object.values(Language).map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                         </select>
                       </div>
                     ))}
+                    <datalist id="speaker-styles">
+                      {Object.values(VoiceStyle).map(st => <option key={st} value={st} />)}
+                    </datalist>
+                    <button
+                      onClick={addBlankSpeaker}
+                      className="w-full py-2 border border-dashed border-navy rounded-lg text-[10px] font-bold text-celestial hover:border-jade hover:text-jade transition-all"
+                    >
+                      <i className="fa-solid fa-plus mr-1"></i> Add Speaker
+                    </button>
                   </div>
                 )}
               </div>
 
+              {/* Conversation Rendering (Multi Speaker) */}
+              {activeTab === 'multi' && (
+                <div className="space-y-3 pt-2">
+                  <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Rendering</label>
+                  <div className="flex gap-1 p-1 bg-navy/30 rounded-lg">
+                    {([['auto', 'Auto'], ['grouped', 'Pairs'], ['per-turn', 'Per Turn']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setConversationMode(mode)}
+                        className={`flex-1 py-1.5 text-[10px] font-bold rounded-md transition-all ${conversationMode === mode ? 'bg-jade text-black' : 'text-celestial hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="text-[10px] font-bold text-celestial opacity-60">Gap Between Segments</span>
+                      <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]">{turnGap.toFixed(1)}s</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="2" step="0.1"
+                      value={turnGap}
+                      onChange={(e) => setTurnGap(parseFloat(e.target.value))}
+                      className="w-full"
+                    />
+                  </div>
+                  <label
+                    title="Render each turn separately and apply speaker speed and pitch locally instead of through the prompt"
+                    className="flex items-center gap-2 text-[10px] font-bold text-celestial cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={exactSpeakerProsody}
+                      onChange={(e) => setExactSpeakerProsody(e.target.checked)}
+                      className="accent-[#3DE1AE]"
+                    />
+                    Exact speaker speed & pitch (local DSP)
+                  </label>
+                </div>
+              )}
+
+              <button
+                onClick={() => setShowLexicon(true)}
+                className="w-full flex justify-between items-center px-4 py-2.5 bg-navy/40 border border-navy/50 rounded-lg text-xs text-white font-bold hover:border-jade transition-all"
+              >
+                <span><i className="fa-solid fa-spell-check text-jade mr-2"></i>Pronunciation Lexicon</span>
+                <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]">{lexicon.length}</span>
+              </button>
+
+              <button
+                onClick={() => setShowPresets(true)}
+                className="w-full flex justify-between items-center px-4 py-2.5 bg-navy/40 border border-navy/50 rounded-lg text-xs text-white font-bold hover:border-jade transition-all"
+              >
+                <span><i className="fa-solid fa-sliders text-jade mr-2"></i>Voice Presets</span>
+                <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]">{presets.length}</span>
+              </button>
+
               {/* Preset Voice Style Selector (Single Speaker) */}
               {activeTab === 'single' && (
                 <div className="space-y-2 pt-2">
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const preset = findPreset(presets, e.target.value);
+                      if (preset) applyPreset(preset);
+                    }}
+                    className="w-full bg-navy/40 border border-navy/50 rounded-lg px-4 py-2.5 text-xs text-white font-bold outline-none"
+                  >
+                    <option value="">Apply a Preset...</option>
+                    {Object.values(Language).map(lang => (
+                      <optgroup key={lang} label={lang}>
+                        {presets.filter(p => p.language === lang).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </optgroup>
+                    ))}
+                  </select>
                   <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Voice Style</label>
                   <select 
-                    value={style}
+                    value={isCustomStyle ? 'Custom' : style}
                     onChange={(e) => setStyle(e.target.value)}
                     className="w-full bg-navy/40 border border-navy/50 rounded-lg px-4 py-2.5 text-xs text-white font-bold outline-none"
                   >
@@ -346,11 +1814,12 @@ const App: React.FC = () => {
                     <option value="Custom">-- Custom Style --</option>
                   </select>
                   
-                  {style === 'Custom' && (
+                  {isCustomStyle && (
                     <input 
                       type="text"
                       placeholder="e.g. Whispering, Dramatic"
-                      onChange={(e) => setStyle(e.target.value)}
+                      value={style === 'Custom' ? '' : style}
+                      onChange={(e) => setStyle(e.target.value || 'Custom')}
                       className="w-full mt-2 bg-navy/20 rounded-lg px-4 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
                     />
                   )}
@@ -359,6 +1828,75 @@ const App: React.FC = () => {
 
               {/* Sliders */}
               <div className="space-y-6 pt-4 border-t border-navy/50">
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Speed & Pitch Mode</label>
+                    {isProcessing && <i className="fa-solid fa-spinner fa-spin text-jade text-[10px]" title="Applying locally"></i>}
+                  </div>
+                  <div className="flex gap-1 p-1 bg-navy/30 rounded-lg">
+                    {([['prompt', 'Prompt'], ['precise', 'Precise (local DSP)']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setRenderMode(mode)}
+                        title={mode === 'prompt' ? 'Ask the model to change speed and pitch' : 'Render neutral, then apply exact values locally'}
+                        className={`flex-1 py-1.5 text-[10px] font-bold rounded-md transition-all ${renderMode === mode ? 'bg-jade text-black' : 'text-celestial hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {renderMode === 'precise' && (
+                    <div className="flex items-center gap-2 pt-1">
+                      <span className="text-[10px] font-bold text-celestial opacity-60">Quality</span>
+                      <select
+                        value={stretchQuality}
+                        onChange={(e) => setStretchQuality(e.target.value as StretchQuality)}
+                        className="flex-1 bg-navy/40 border border-navy/50 rounded-md px-2 py-1 text-[10px] text-white font-bold outline-none"
+                      >
+                        <option value="fast">Fast</option>
+                        <option value="balanced">Balanced</option>
+                        <option value="high">High</option>
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Mastering</label>
+                  <div className="flex gap-1 p-1 bg-navy/30 rounded-lg">
+                    {([['off', 'Off'], ['podcast', '-16 LUFS'], ['broadcast', '-23 LUFS']] as [LoudnessPreset, string][]).map(([preset, label]) => (
+                      <button
+                        key={preset}
+                        onClick={() => setMastering(m => ({ ...m, loudness: preset }))}
+                        title={preset === 'off' ? 'No loudness normalization' : LOUDNESS_PRESETS[preset].label}
+                        className={`flex-1 py-1.5 text-[10px] font-bold rounded-md transition-all ${mastering.loudness === preset ? 'bg-jade text-black' : 'text-celestial hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-4 pt-1">
+                    <label className="flex items-center gap-2 text-[10px] font-bold text-celestial cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={mastering.highPass}
+                        onChange={(e) => setMastering(m => ({ ...m, highPass: e.target.checked }))}
+                        className="accent-[#3DE1AE]"
+                      />
+                      High-pass 80 Hz
+                    </label>
+                    <label className="flex items-center gap-2 text-[10px] font-bold text-celestial cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={mastering.trimSilence}
+                        onChange={(e) => setMastering(m => ({ ...m, trimSilence: e.target.checked }))}
+                        className="accent-[#3DE1AE]"
+                      />
+                      Trim silence
+                    </label>
+                  </div>
+                </div>
+
                 <div className="space-y-3">
                   <div className="flex justify-between items-center">
                     <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Pitch</label>
@@ -384,24 +1922,132 @@ const App: React.FC = () => {
                     className="w-full"
                   />
                 </div>
+
+                <div className="pt-4 border-t border-navy/50">
+                  <MusicBedPanel
+                    bed={musicBed}
+                    options={musicOptions}
+                    isLoading={isLoadingMusic}
+                    onLoad={loadMusicBed}
+                    onRemove={() => setMusicBed(null)}
+                    onChange={setMusicOptions}
+                  />
+                </div>
               </div>
             </div>
           </div>
 
-          <button 
-            onClick={generate}
-            disabled={isGenerating || (activeTab === 'single' ? !script.trim() : !multiScript.trim())}
-            className="w-full py-4 btn-primary rounded-xl text-sm uppercase tracking-widest shadow-lg disabled:opacity-20 flex items-center justify-center gap-2"
-          >
-            {isGenerating ? (
-              <><i className="fa-solid fa-spinner fa-spin"></i><span>Synthesizing</span></>
-            ) : (
-              <><i className="fa-solid fa-bolt-lightning"></i><span>Generate Audio</span></>
-            )}
-          </button>
+          {workspace === 'editor' && (
+            <div className="flex gap-3">
+              <button 
+                onClick={() => generate()}
+                disabled={isGenerating || (activeTab === 'single' ? !script.trim() : !multiScript.trim())}
+                className="flex-1 py-4 btn-primary rounded-xl text-sm uppercase tracking-widest shadow-lg disabled:opacity-20 flex items-center justify-center gap-2"
+              >
+                {isGenerating ? (
+                  <><i className="fa-solid fa-spinner fa-spin"></i><span>Synthesizing</span></>
+                ) : (
+                  <><i className="fa-solid fa-bolt-lightning"></i><span>Generate Audio</span></>
+                )}
+              </button>
+              {isGenerating && (
+                <button
+                  onClick={cancelGeneration}
+                  title="Cancel generation"
+                  className="px-5 rounded-xl text-sm font-bold uppercase tracking-widest bg-navy text-white hover:bg-opacity-80 flex items-center gap-2"
+                >
+                  <i className="fa-solid fa-xmark"></i><span>Cancel</span>
+                </button>
+              )}
+            </div>
+          )}
+          {workspace === 'editor' && (
+            <label
+              title="Start playing long scripts as soon as the first chunk is ready"
+              className="flex items-center gap-2 text-[10px] font-bold text-celestial cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={streamPlayback}
+                onChange={(e) => {
+                  setStreamPlayback(e.target.checked);
+                  if (!e.target.checked) stopStream();
+                }}
+                className="accent-[#3DE1AE]"
+              />
+              Play while rendering
+            </label>
+          )}
+
+          <HistoryPanel refreshKey={historyVersion} onRestore={restoreSettings} />
         </aside>
       </div>
 
+      {transliterationSource !== null && isTransliterable(language) && (
+        <TransliterationPreview
+          original={transliterationSource}
+          language={language}
+          onAccept={(converted) => {
+            setTransliterationSource(null);
+            setScript(converted);
+            generate(converted);
+          }}
+          onSkip={() => {
+            setTransliterationSource(null);
+            generate(transliterationSource);
+          }}
+          onCancel={() => setTransliterationSource(null)}
+        />
+      )}
+
+      {showLexicon && (
+        <LexiconManager
+          entries={lexicon}
+          defaultLanguage={language}
+          testingId={testingLexiconId}
+          onChange={updateLexicon}
+          onTest={handleTestLexiconEntry}
+          onClose={() => setShowLexicon(false)}
+        />
+      )}
+
+      {showPresets && (
+        <PresetManager
+          presets={presets}
+          voices={ttsProvider.listVoices()}
+          defaultLanguage={language}
+          current={{ voice: selectedVoice, style, pitch, speed, language }}
+          previewingVoice={previewingVoice}
+          onChange={updatePresets}
+          onPreview={previewPreset}
+          onApply={(preset) => {
+            applyPreset(preset);
+            setShowPresets(false);
+          }}
+          onClose={() => setShowPresets(false)}
+        />
+      )}
+
+      {showPalette && <CommandPalette commands={paletteCommands()} onClose={() => setShowPalette(false)} />}
+
+      {showShortcutsHelp && (
+        <ShortcutsHelp shortcuts={shortcuts} onChange={updateShortcuts} onClose={() => setShowShortcutsHelp(false)} />
+      )}
+
+      {galleryTarget !== null && (
+        <VoiceGallery
+          voices={ttsProvider.listVoices()}
+          selected={gallerySpeaker ? gallerySpeaker.voice : selectedVoice}
+          target={gallerySpeaker ? gallerySpeaker.name || 'Speaker' : 'Single Speaker'}
+          initialGender={genderFilter}
+          language={galleryLanguage}
+          previewingVoice={previewingVoice}
+          onPreview={(voice, text) => handlePreviewVoice(voice, text, { language: galleryLanguage })}
+          onSelect={selectGalleryVoice}
+          onClose={() => setGalleryTarget(null)}
+        />
+      )}
+
       {/* Footer Enhancement */}
       <footer className="mt-8 py-6 border-t border-navy/30 flex flex-col md:flex-row justify-between items-center gap-4 text-[10px] font-bold text-white/30 uppercase tracking-[0.2em]">
         <div className="flex items-center gap-2">
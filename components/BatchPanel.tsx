@@ -0,0 +1,299 @@
+
+import React, { useState, useRef } from 'react';
+import { BatchJob, BatchRow, Language, LexiconEntry, Voice } from '../types';
+import { ttsProvider } from '../services/ttsProvider';
+import { isCancelled, TTSError } from '../services/ttsErrors';
+import { decodeBase64, decodePCMToAudioBuffer, audioBufferToWav } from '../utils/audioProcessing';
+import {
+  BATCH_COLUMNS,
+  parseBatchFile,
+  runWithConcurrency,
+  batchFilename,
+  batchManifest
+} from '../utils/batch';
+import { createZip } from '../utils/zip';
+import { downloadBlob } from '../utils/download';
+
+interface BatchPanelProps {
+  // Used for rows that leave voice, style or language empty
+  defaultVoice: Voice;
+  defaultStyle: string;
+  defaultLanguage: Language;
+  lexicon: LexiconEntry[];
+  getAudioContext: () => AudioContext;
+}
+
+// How long every worker holds off once a row runs into the rate limit, which
+// Gemini counts per minute
+const QUOTA_PAUSE_MS = 60_000;
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  pending: 'text-celestial opacity-60',
+  rendering: 'text-jade',
+  done: 'text-jade',
+  error: 'text-red-400'
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  defaultVoice,
+  defaultStyle,
+  defaultLanguage,
+  lexicon,
+  getAudioContext
+}) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(3);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // When rows may start again after a rate limit, while the batch is held
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null);
+  const [playing, setPlaying] = useState<{ id: string; audio: HTMLAudioElement } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const updateJob = (id: string, update: (job: BatchJob) => BatchJob) => {
+    setJobs(prev => prev.map(j => (j.row.id === id ? update(j) : j)));
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const rows = parseBatchFile(await file.text(), {
+        voice: defaultVoice,
+        style: defaultStyle,
+        language: defaultLanguage
+      });
+      if (rows.length === 0) throw new Error("The file has no rows.");
+      setJobs(rows.map(row => ({ row, status: 'pending', attempts: 0 })));
+      setFileName(file.name);
+    } catch (err: any) {
+      setError(err.message || "Could not read batch file.");
+    }
+  };
+
+  const renderRow = async (row: BatchRow, signal: AbortSignal, pause: (ms: number) => void) => {
+    updateJob(row.id, j => ({ ...j, status: 'rendering', error: undefined, attempts: j.attempts + 1 }));
+    try {
+      const { audio, cached } = await ttsProvider.synthesize({
+        text: row.text,
+        style: row.style,
+        voice: row.voice,
+        speed: row.speed,
+        pitch: row.pitch,
+        language: row.language,
+        lexicon
+      }, signal);
+
+      const buffer = await decodePCMToAudioBuffer(decodeBase64(audio), getAudioContext());
+      updateJob(row.id, j => ({ ...j, status: 'done', cached, audio: audioBufferToWav(buffer), duration: buffer.duration }));
+    } catch (err: any) {
+      // The other workers would only run into the same limit, so hold them all
+      if (err instanceof TTSError && err.kind === 'quota') {
+        const until = Date.now() + QUOTA_PAUSE_MS;
+        pause(QUOTA_PAUSE_MS);
+        setPausedUntil(until);
+        setTimeout(() => setPausedUntil(p => (p === until ? null : p)), QUOTA_PAUSE_MS);
+      }
+      // Cancelled rows go back to the queue rather than counting as failures
+      updateJob(row.id, j => isCancelled(err)
+        ? { ...j, status: 'pending' }
+        : { ...j, status: 'error', error: err.message || "Failed to synthesize row." });
+    }
+  };
+
+  const runRows = async (rows: BatchRow[]) => {
+    if (isRunning || rows.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runWithConcurrency(rows, concurrency, (row, pause) => renderRow(row, controller.signal, pause), controller.signal);
+    } finally {
+      abortRef.current = null;
+      setPausedUntil(null);
+      setIsRunning(false);
+    }
+  };
+
+  const togglePlay = (job: BatchJob) => {
+    playing?.audio.pause();
+    if (playing?.id === job.row.id || !job.audio) {
+      setPlaying(null);
+      return;
+    }
+    const audio = new Audio(URL.createObjectURL(job.audio));
+    audio.onended = () => {
+      URL.revokeObjectURL(audio.src);
+      setPlaying(null);
+    };
+    audio.play().catch((err: any) => {
+      URL.revokeObjectURL(audio.src);
+      setPlaying(null);
+      setError(err.message || "Playback failed.");
+    });
+    setPlaying({ id: job.row.id, audio });
+  };
+
+  const downloadZip = async () => {
+    const done = jobs.filter(j => j.status === 'done' && j.audio);
+    const entries = await Promise.all(done.map(async j => ({
+      name: batchFilename(j.row.id),
+      data: new Uint8Array(await j.audio!.arrayBuffer())
+    })));
+    entries.push({ name: 'manifest.json', data: new TextEncoder().encode(batchManifest(jobs)) });
+    downloadBlob(createZip(entries), 'awaaz_ai_batch.zip');
+  };
+
+  const downloadTemplate = () => {
+    const example = ['greeting_01', 'Thank you for calling. Please hold.', defaultVoice, 'Friendly', defaultLanguage, '1.0', '0'];
+    downloadBlob(new Blob([`${BATCH_COLUMNS.join(',')}\n${example.join(',')}\n`], { type: 'text/csv' }), 'awaaz_ai_batch_template.csv');
+  };
+
+  const counts = {
+    done: jobs.filter(j => j.status === 'done').length,
+    error: jobs.filter(j => j.status === 'error').length
+  };
+  const remaining = jobs.filter(j => j.status === 'pending' || j.status === 'error').map(j => j.row);
+
+  return (
+    <main className="flex-1 flex flex-col glass-panel overflow-hidden shadow-xl">
+      <div className="p-6 flex-1 flex flex-col gap-4 bg-black/40">
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all disabled:opacity-50"
+          >
+            <i className="fa-solid fa-file-import mr-1"></i> Import CSV / JSON
+          </button>
+          <button
+            onClick={downloadTemplate}
+            className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+          >
+            Template
+          </button>
+          {fileName && <span className="text-[10px] font-bold text-celestial opacity-60 truncate">{fileName} · {jobs.length} rows</span>}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-[10px] font-bold text-celestial opacity-60">Parallel</span>
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={isRunning}
+              className="bg-navy/40 border border-navy/50 rounded-md px-2 py-1 text-[10px] text-white font-bold outline-none"
+            >
+              {[1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {error && <p className="text-[10px] font-bold text-red-400">{error}</p>}
+
+        <div className="flex-1 min-h-[300px] overflow-y-auto custom-scrollbar bg-navy/10 rounded-lg">
+          {jobs.length === 0 ? (
+            <p className="text-[10px] font-bold text-celestial opacity-40 text-center py-12">
+              Import a file with columns: {BATCH_COLUMNS.join(', ')}. Only text is required.
+            </p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-[#050505]">
+                <tr className="text-left text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">
+                  <th className="px-3 py-2">Id</th>
+                  <th className="px-3 py-2">Text</th>
+                  <th className="px-3 py-2">Voice</th>
+                  <th className="px-3 py-2">Language</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map(job => (
+                  <tr key={job.row.id} className="border-t border-navy/30">
+                    <td className="px-3 py-2 font-bold text-white whitespace-nowrap">{job.row.id}</td>
+                    <td className="px-3 py-2 text-white/70 max-w-[320px] truncate" title={job.row.text}>{job.row.text}</td>
+                    <td className="px-3 py-2 text-celestial">{job.row.voice}</td>
+                    <td className="px-3 py-2 text-celestial">{job.row.language}</td>
+                    <td className={`px-3 py-2 text-[10px] font-bold ${STATUS_STYLES[job.status]}`} title={job.error}>
+                      {job.status === 'rendering' && <i className="fa-solid fa-spinner fa-spin mr-1"></i>}
+                      {job.status === 'error' ? job.error : job.status === 'pending' && isRunning && pausedUntil ? 'waiting for rate limit' : job.status}
+                      {job.status === 'done' && job.duration !== undefined && ` · ${job.duration.toFixed(1)}s`}
+                      {job.status === 'done' && job.cached && ' · cached'}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {job.status === 'done' && (
+                        <button onClick={() => togglePlay(job)} title="Play" className="text-jade hover:text-white">
+                          <i className={`fa-solid ${playing?.id === job.row.id ? 'fa-stop' : 'fa-play'} text-[10px]`}></i>
+                        </button>
+                      )}
+                      {job.status === 'error' && (
+                        <button
+                          onClick={() => runRows([job.row])}
+                          disabled={isRunning}
+                          className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {jobs.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-[10px] font-bold text-celestial opacity-60">
+              {counts.done}/{jobs.length} done{counts.error > 0 && ` · ${counts.error} failed`}
+            </span>
+            <div className="ml-auto flex gap-3">
+              {isRunning && (
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="px-5 py-2.5 rounded-full text-xs font-bold bg-navy text-white hover:bg-opacity-80"
+                >
+                  <i className="fa-solid fa-xmark mr-1"></i> Cancel
+                </button>
+              )}
+              <button
+                onClick={() => runRows(remaining)}
+                disabled={isRunning || remaining.length === 0}
+                className="px-5 py-2.5 rounded-full text-xs btn-primary disabled:opacity-20"
+              >
+                {isRunning ? (
+                  <><i className="fa-solid fa-spinner fa-spin mr-1"></i> Synthesizing</>
+                ) : counts.error > 0 && remaining.length === counts.error ? (
+                  <>Retry {counts.error} Failed</>
+                ) : (
+                  <>Generate {remaining.length} Clips</>
+                )}
+              </button>
+              <button
+                onClick={downloadZip}
+                disabled={counts.done === 0 || isRunning}
+                className="px-5 py-2.5 rounded-full text-xs font-bold bg-navy text-white hover:bg-opacity-80 disabled:opacity-20"
+              >
+                <i className="fa-solid fa-file-zipper mr-1"></i> Download Zip
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default BatchPanel;
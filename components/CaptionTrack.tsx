@@ -0,0 +1,66 @@
+
+import React, { useEffect, useRef } from 'react';
+import { SubtitleCue, toSrt, toWebVtt } from '../utils/subtitles';
+import { scriptFilename } from '../utils/audioEncoders';
+import { downloadBlob } from '../utils/download';
+
+interface CaptionTrackProps {
+  cues: SubtitleCue[];
+  // Playback position of the output player, in seconds
+  currentTime: number;
+  direction: 'ltr' | 'rtl';
+  script: string;
+  onSeek: (seconds: number) => void;
+}
+
+const CaptionTrack: React.FC<CaptionTrackProps> = ({ cues, currentTime, direction, script, onSeek }) => {
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+  const activeIndex = cues.findIndex(cue => currentTime >= cue.start && currentTime < cue.end);
+
+  // Keep the spoken caption in view without scrolling the whole page
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const exportCaptions = (format: 'srt' | 'vtt') => {
+    const content = format === 'srt' ? toSrt(cues, direction) : toWebVtt(cues, direction);
+    const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), scriptFilename(script, format));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Captions</label>
+        <div className="flex gap-2">
+          <button
+            onClick={() => exportCaptions('srt')}
+            className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+          >
+            SRT
+          </button>
+          <button
+            onClick={() => exportCaptions('vtt')}
+            className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+          >
+            VTT
+          </button>
+        </div>
+      </div>
+      <div dir={direction} className="max-h-[160px] overflow-y-auto custom-scrollbar space-y-1">
+        {cues.map((cue, idx) => (
+          <button
+            key={idx}
+            ref={idx === activeIndex ? activeRef : undefined}
+            onClick={() => onSeek(cue.start)}
+            className={`w-full text-start px-3 py-1.5 rounded-md text-xs whitespace-pre-line transition-all ${idx === activeIndex ? 'bg-jade text-black font-bold' : 'text-white/60 hover:bg-navy/40'}`}
+          >
+            {cue.text}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CaptionTrack;
@@ -0,0 +1,108 @@
+
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: 'Action' | 'Voice' | 'Style' | 'Preset';
+  // Extra searchable text shown after the label, e.g. a voice's tone
+  detail?: string;
+  // Key combination shown on the right
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  // Every word must match the group, label or detail, e.g. "voice warm"
+  const results = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return commands
+      .filter(c => {
+        const haystack = `${c.group} ${c.label} ${c.detail ?? ''}`.toLowerCase();
+        return terms.every(term => haystack.includes(term));
+      })
+      .slice(0, MAX_RESULTS);
+  }, [commands, query]);
+
+  useEffect(() => setActive(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(i => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(results[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-start justify-center p-4 pt-[15vh]" onMouseDown={onClose}>
+      <div
+        className="glass-panel w-full max-w-[560px] max-h-[60vh] flex flex-col bg-[#050505] shadow-xl overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 border-b border-navy px-5 py-4">
+          <i className="fa-solid fa-magnifying-glass text-jade text-xs"></i>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search actions, voices, styles and presets..."
+            className="flex-1 bg-transparent text-sm text-white outline-none"
+          />
+        </div>
+        <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {results.map((command, idx) => (
+            <button
+              key={command.id}
+              onClick={() => run(command)}
+              onMouseMove={() => setActive(idx)}
+              className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-left transition-all ${idx === active ? 'bg-jade/10' : ''}`}
+            >
+              <span className="w-12 text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">{command.group}</span>
+              <span className={`text-xs font-bold ${idx === active ? 'text-jade' : 'text-white'}`}>{command.label}</span>
+              {command.detail && <span className="text-[10px] text-white/40 truncate">{command.detail}</span>}
+              {command.shortcut && (
+                <span className="ml-auto bg-navy/50 text-celestial px-2 py-0.5 rounded-md font-mono text-[10px]">{command.shortcut}</span>
+              )}
+            </button>
+          ))}
+          {results.length === 0 && (
+            <p className="text-[10px] font-bold text-celestial opacity-40 text-center py-8">Nothing matches "{query}".</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,120 @@
+
+import React, { useState } from 'react';
+import { ExportFormat, AudioMetadata, FORMAT_DETAILS, encodeAudio, scriptFilename } from '../utils/audioEncoders';
+import { downloadBlob } from '../utils/download';
+
+interface ExportMenuProps {
+  // Final (post-processing) buffer currently loaded in the player
+  buffer: AudioBuffer;
+  script: string;
+  metadata: AudioMetadata;
+}
+
+const BITRATES: Partial<Record<ExportFormat, number[]>> = {
+  mp3: [32, 64, 96, 128, 160],
+  opus: [16, 24, 32, 48, 64]
+};
+
+const DEFAULT_BITRATE: Partial<Record<ExportFormat, number>> = { mp3: 64, opus: 32 };
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ buffer, script, metadata }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('mp3');
+  const [bitrate, setBitrate] = useState(DEFAULT_BITRATE.mp3!);
+  const [flacLevel, setFlacLevel] = useState<'fast' | 'best'>('best');
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectFormat = (next: ExportFormat) => {
+    setFormat(next);
+    if (DEFAULT_BITRATE[next]) setBitrate(DEFAULT_BITRATE[next]!);
+  };
+
+  const handleExport = async () => {
+    setIsEncoding(true);
+    setError(null);
+    try {
+      const blob = await encodeAudio(buffer, { format, bitrate, flacLevel, metadata });
+      downloadBlob(blob, scriptFilename(script, FORMAT_DETAILS[format].extension));
+      setIsOpen(false);
+    } catch (err: any) {
+      setError(err.message || "Export failed.");
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="p-2.5 bg-celestial text-black rounded-full hover:scale-105 transition-transform"
+        title="Download"
+      >
+        <i className="fa-solid fa-download"></i>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 bottom-full mb-3 z-40 w-[280px] glass-panel bg-[#050505] p-4 space-y-3 shadow-xl">
+          <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Format</label>
+          <div className="grid grid-cols-2 gap-1 p-1 bg-navy/30 rounded-lg">
+            {(Object.keys(FORMAT_DETAILS) as ExportFormat[]).map(f => (
+              <button
+                key={f}
+                onClick={() => selectFormat(f)}
+                className={`py-1.5 text-[10px] font-bold rounded-md transition-all ${format === f ? 'bg-jade text-black' : 'text-celestial hover:text-white'}`}
+              >
+                {FORMAT_DETAILS[f].label}
+              </button>
+            ))}
+          </div>
+
+          {BITRATES[format] && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Bitrate</label>
+              <select
+                value={bitrate}
+                onChange={(e) => setBitrate(Number(e.target.value))}
+                className="w-full bg-navy/20 rounded-lg px-3 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
+              >
+                {BITRATES[format]!.map(kbps => (
+                  <option key={kbps} value={kbps} className="bg-navy">{kbps} kbps</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {format === 'flac' && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Compression</label>
+              <select
+                value={flacLevel}
+                onChange={(e) => setFlacLevel(e.target.value as 'fast' | 'best')}
+                className="w-full bg-navy/20 rounded-lg px-3 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
+              >
+                <option value="fast" className="bg-navy">Fast</option>
+                <option value="best" className="bg-navy">Smallest file</option>
+              </select>
+            </div>
+          )}
+
+          {error && <p className="text-[10px] font-bold text-red-400">{error}</p>}
+
+          <button
+            onClick={handleExport}
+            disabled={isEncoding}
+            className="w-full py-2.5 rounded-full text-xs btn-primary disabled:opacity-50"
+          >
+            {isEncoding ? (
+              <><i className="fa-solid fa-spinner fa-spin mr-1"></i> Encoding...</>
+            ) : (
+              <>Download .{FORMAT_DETAILS[format].extension}</>
+            )}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,235 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { GenerationSettings, HistoryEntry } from '../types';
+import {
+  listHistoryEntries,
+  renameHistoryEntry,
+  deleteHistoryEntry,
+  getStorageEstimate
+} from '../services/historyStore';
+import { AudioCacheStats, clearAudioCache, getAudioCacheStats, onAudioCacheChange } from '../services/audioCache';
+import { downloadBlob } from '../utils/download';
+
+interface HistoryPanelProps {
+  // Bumped by the parent whenever a new render has been saved
+  refreshKey: number;
+  onRestore: (settings: GenerationSettings) => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+function formatDuration(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshKey, onRestore }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [cacheStats, setCacheStats] = useState<AudioCacheStats | null>(null);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Kept apart from `error` so a broken cache doesn't read as a history failure
+  const [cacheError, setCacheError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listHistoryEntries());
+      setStorage(await getStorageEstimate());
+    } catch (err: any) {
+      setError(err.message || "Failed to load history.");
+    }
+  };
+
+  const refreshCacheStats = async () => {
+    try {
+      setCacheStats(await getAudioCacheStats());
+      setCacheError(null);
+    } catch (err: any) {
+      setCacheError(err.message || "Failed to read the audio cache.");
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  // Previews and renders that skip history still fill the cache
+  useEffect(() => {
+    refreshCacheStats();
+    return onAudioCacheChange(refreshCacheStats);
+  }, []);
+
+  // Release the playback URL when switching takes or unmounting
+  useEffect(() => {
+    return () => {
+      if (playing) URL.revokeObjectURL(playing.url);
+    };
+  }, [playing]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(e =>
+      e.name.toLowerCase().includes(q) ||
+      e.settings.script.toLowerCase().includes(q) ||
+      e.settings.voice.toLowerCase().includes(q) ||
+      e.settings.speakers.some(s => s.name.toLowerCase().includes(q))
+    );
+  }, [entries, query]);
+
+  const handlePlay = (entry: HistoryEntry) => {
+    if (playing?.id === entry.id) {
+      setPlaying(null);
+      return;
+    }
+    setPlaying({ id: entry.id, url: URL.createObjectURL(entry.audio) });
+  };
+
+  const handleDownload = (entry: HistoryEntry) => {
+    downloadBlob(entry.audio, `${entry.name.replace(/[^\w\-]+/g, '_') || 'awaaz_ai_audio'}.wav`);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (!name) return;
+    try {
+      await renameHistoryEntry(renaming.id, name);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || "Failed to rename take.");
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Delete "${entry.name}" from history?`)) return;
+    if (playing?.id === entry.id) setPlaying(null);
+    try {
+      await deleteHistoryEntry(entry.id);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete take.");
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm("Clear the audio cache? Identical requests will call the API again.")) return;
+    try {
+      await clearAudioCache();
+    } catch (err: any) {
+      setCacheError(err.message || "Failed to clear the audio cache.");
+    }
+  };
+
+  return (
+    <div className="glass-panel p-6 flex flex-col gap-4 bg-[#050505]">
+      <header className="flex justify-between items-center border-b border-navy pb-3">
+        <h2 className="text-sm font-black uppercase tracking-widest text-jade">History</h2>
+        <i className="fa-solid fa-clock-rotate-left text-jade text-sm"></i>
+      </header>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search takes..."
+        className="w-full bg-navy/20 rounded-lg px-4 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
+      />
+
+      {error && <p className="text-[10px] font-bold text-red-400">{error}</p>}
+
+      <div className="space-y-2 max-h-[320px] overflow-y-auto custom-scrollbar pr-1">
+        {filtered.length === 0 && (
+          <p className="text-[10px] font-bold text-celestial opacity-40 text-center py-4">
+            {entries.length === 0 ? 'Generated audio will appear here.' : 'No takes match your search.'}
+          </p>
+        )}
+        {filtered.map(entry => (
+          <div key={entry.id} className="p-3 bg-navy/20 rounded-lg space-y-2 border border-jade/5">
+            {renaming?.id === entry.id ? (
+              <input
+                autoFocus
+                value={renaming.name}
+                onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+                // Saved only on blur, so Enter (which blurs) doesn't write twice
+                onBlur={handleRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setRenaming(null);
+                }}
+                className="bg-transparent text-xs font-black text-white outline-none w-full border-b border-jade pb-1"
+              />
+            ) : (
+              <p className="text-xs font-black text-white truncate" title={entry.settings.script}>{entry.name}</p>
+            )}
+            <p className="text-[10px] font-bold text-celestial opacity-60">
+              {new Date(entry.createdAt).toLocaleString()} · {formatDuration(entry.duration)} ·{' '}
+              {entry.settings.tab === 'single' ? entry.settings.voice : entry.settings.speakers.map(s => s.name).join(', ')}
+            </p>
+            <div className="flex gap-1">
+              <button onClick={() => handlePlay(entry)} title={playing?.id === entry.id ? 'Stop' : 'Play'} className="w-7 h-7 flex items-center justify-center bg-navy/50 rounded-md text-jade hover:bg-jade hover:text-black transition-all">
+                <i className={`fa-solid ${playing?.id === entry.id ? 'fa-stop' : 'fa-play'} text-[10px]`}></i>
+              </button>
+              <button onClick={() => handleDownload(entry)} title="Download" className="w-7 h-7 flex items-center justify-center bg-navy/50 rounded-md text-celestial hover:bg-jade hover:text-black transition-all">
+                <i className="fa-solid fa-download text-[10px]"></i>
+              </button>
+              <button onClick={() => setRenaming({ id: entry.id, name: entry.name })} title="Rename" className="w-7 h-7 flex items-center justify-center bg-navy/50 rounded-md text-celestial hover:bg-jade hover:text-black transition-all">
+                <i className="fa-solid fa-pen text-[10px]"></i>
+              </button>
+              <button onClick={() => onRestore(entry.settings)} title="Restore Settings" className="w-7 h-7 flex items-center justify-center bg-navy/50 rounded-md text-celestial hover:bg-jade hover:text-black transition-all">
+                <i className="fa-solid fa-rotate-left text-[10px]"></i>
+              </button>
+              <button onClick={() => handleDelete(entry)} title="Delete" className="ml-auto w-7 h-7 flex items-center justify-center bg-navy/50 rounded-md text-celestial hover:bg-red-500 hover:text-white transition-all">
+                <i className="fa-solid fa-trash text-[10px]"></i>
+              </button>
+            </div>
+            {playing?.id === entry.id && (
+              <audio src={playing.url} autoPlay controls onEnded={() => setPlaying(null)} className="w-full h-8" />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {storage && storage.quota > 0 && (
+        <div className="space-y-1 pt-2 border-t border-navy/50">
+          <div className="flex justify-between text-[10px] font-bold text-celestial opacity-60">
+            <span>Storage</span>
+            <span>{formatBytes(storage.usage)} / {formatBytes(storage.quota)}</span>
+          </div>
+          <div className="h-1 bg-navy rounded-full overflow-hidden">
+            <div className="h-full bg-jade" style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%` }} />
+          </div>
+        </div>
+      )}
+
+      {cacheStats && cacheStats.count > 0 && (
+        <div className="flex justify-between items-center text-[10px] font-bold text-celestial">
+          <span className="opacity-60" title="Identical requests are served from here instead of calling the API">
+            <i className="fa-solid fa-database mr-1"></i>
+            Audio cache · {cacheStats.count} clip{cacheStats.count === 1 ? '' : 's'} · {formatBytes(cacheStats.bytes)}
+          </span>
+          <button
+            onClick={handleClearCache}
+            className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      {cacheError && <p className="text-[10px] font-bold text-red-400">{cacheError}</p>}
+    </div>
+  );
+};
+
+export default HistoryPanel;
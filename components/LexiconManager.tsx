@@ -0,0 +1,169 @@
+
+import React, { useState, useRef } from 'react';
+import { Language, LexiconEntry, LANGUAGE_DETAILS } from '../types';
+import { lexiconToCsv, lexiconToJson, mergeLexicon, parseLexiconFile } from '../utils/lexicon';
+import { downloadBlob } from '../utils/download';
+
+interface LexiconManagerProps {
+  entries: LexiconEntry[];
+  defaultLanguage: Language;
+  // Term currently being auditioned, if any
+  testingId: string | null;
+  onChange: (entries: LexiconEntry[]) => void;
+  onTest: (entry: LexiconEntry) => void;
+  onClose: () => void;
+}
+
+const LexiconManager: React.FC<LexiconManagerProps> = ({
+  entries,
+  defaultLanguage,
+  testingId,
+  onChange,
+  onTest,
+  onClose
+}) => {
+  const [languageFilter, setLanguageFilter] = useState<Language>(defaultLanguage);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const visible = entries.filter(e => e.language === languageFilter);
+
+  const updateEntry = (id: string, patch: Partial<LexiconEntry>) => {
+    onChange(entries.map(e => (e.id === id ? { ...e, ...patch } : e)));
+  };
+
+  const addEntry = () => {
+    onChange([...entries, { id: crypto.randomUUID(), term: '', spoken: '', language: languageFilter }]);
+  };
+
+  const removeEntry = (id: string) => {
+    onChange(entries.filter(e => e.id !== id));
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      onChange(mergeLexicon(entries, parseLexiconFile(await file.text())));
+    } catch (err: any) {
+      setError(err.message || "Could not read lexicon file.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="glass-panel w-full max-w-[760px] max-h-[90vh] flex flex-col bg-[#050505] shadow-xl overflow-hidden">
+        <header className="flex justify-between items-center border-b border-navy p-6 pb-3">
+          <h2 className="text-sm font-black uppercase tracking-widest text-jade">Pronunciation Lexicon</h2>
+          <button onClick={onClose} title="Close" className="text-celestial hover:text-white">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </header>
+
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-3">
+          <div className="flex gap-1 p-1 bg-navy/30 rounded-lg">
+            {Object.values(Language).map(lang => (
+              <button
+                key={lang}
+                onClick={() => setLanguageFilter(lang)}
+                className={`px-3 py-1.5 text-[10px] font-bold rounded-md transition-all ${languageFilter === lang ? 'bg-jade text-black' : 'text-celestial hover:text-white'}`}
+              >
+                {lang} ({entries.filter(e => e.language === lang).length})
+              </button>
+            ))}
+          </div>
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+            >
+              <i className="fa-solid fa-file-import mr-1"></i> Import
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([lexiconToJson(entries)], { type: 'application/json' }), 'awaaz_ai_lexicon.json')}
+              className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+            >
+              JSON
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([lexiconToCsv(entries)], { type: 'text/csv' }), 'awaaz_ai_lexicon.csv')}
+              className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+            >
+              CSV
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {error && <p className="px-6 pt-3 text-[10px] font-bold text-red-400">{error}</p>}
+
+        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">
+            <span>Term</span>
+            <span>Spoken As</span>
+            <span className="w-[72px]"></span>
+          </div>
+          {visible.map(entry => (
+            <div key={entry.id} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+              <input
+                dir={LANGUAGE_DETAILS[entry.language].direction}
+                value={entry.term}
+                placeholder="e.g. AwaazAI"
+                onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                className="bg-navy/20 rounded-lg px-3 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
+              />
+              <input
+                dir={LANGUAGE_DETAILS[entry.language].direction}
+                value={entry.spoken}
+                placeholder="e.g. Aawaaz A.I."
+                onChange={(e) => updateEntry(entry.id, { spoken: e.target.value })}
+                className="bg-navy/20 rounded-lg px-3 py-2 text-xs text-jade font-bold outline-none border border-navy/30 focus:border-jade"
+              />
+              <div className="flex gap-1 w-[72px]">
+                <button
+                  onClick={() => onTest(entry)}
+                  disabled={!entry.term.trim() || testingId !== null}
+                  title="Test this word"
+                  className="w-8 h-8 flex items-center justify-center bg-navy/50 rounded-md text-jade hover:bg-jade hover:text-black transition-all disabled:opacity-50"
+                >
+                  {testingId === entry.id ? (
+                    <i className="fa-solid fa-spinner fa-spin text-[10px]"></i>
+                  ) : (
+                    <i className="fa-solid fa-play text-[10px]"></i>
+                  )}
+                </button>
+                <button
+                  onClick={() => removeEntry(entry.id)}
+                  title="Delete"
+                  className="w-8 h-8 flex items-center justify-center bg-navy/50 rounded-md text-celestial hover:bg-red-500 hover:text-white transition-all"
+                >
+                  <i className="fa-solid fa-trash text-[10px]"></i>
+                </button>
+              </div>
+            </div>
+          ))}
+          {visible.length === 0 && (
+            <p className="text-[10px] font-bold text-celestial opacity-40 text-center py-4">No {languageFilter} terms yet.</p>
+          )}
+          <button
+            onClick={addEntry}
+            className="w-full py-2 border border-dashed border-navy rounded-lg text-[10px] font-bold text-celestial hover:border-jade hover:text-jade transition-all"
+          >
+            <i className="fa-solid fa-plus mr-1"></i> Add Term
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LexiconManager;
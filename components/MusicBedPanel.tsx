@@ -0,0 +1,111 @@
+
+import React, { useRef } from 'react';
+import { MusicBedOptions } from '../utils/audioMixing';
+
+interface MusicBedPanelProps {
+  bed: { name: string; buffer: AudioBuffer } | null;
+  options: MusicBedOptions;
+  isLoading: boolean;
+  onLoad: (file: File) => void;
+  onRemove: () => void;
+  onChange: (options: MusicBedOptions) => void;
+}
+
+const MusicBedPanel: React.FC<MusicBedPanelProps> = ({ bed, options, isLoading, onLoad, onRemove, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const update = (patch: Partial<MusicBedOptions>) => onChange({ ...options, ...patch });
+
+  const slider = (
+    label: string,
+    value: number,
+    display: string,
+    min: number,
+    max: number,
+    step: number,
+    onValue: (value: number) => void
+  ) => (
+    <div className="space-y-1">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold text-celestial opacity-60">{label}</span>
+        <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]">{display}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step}
+        value={value}
+        onChange={(e) => onValue(parseFloat(e.target.value))}
+        className="w-full"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Music Bed</label>
+        {isLoading && <i className="fa-solid fa-spinner fa-spin text-jade text-[10px]"></i>}
+      </div>
+
+      {bed ? (
+        <div className="flex items-center gap-2 bg-navy/20 border border-navy/30 rounded-lg px-3 py-2">
+          <i className="fa-solid fa-music text-jade text-[10px]"></i>
+          <span className="flex-1 min-w-0 truncate text-xs text-white" title={bed.name}>{bed.name}</span>
+          <span className="text-[10px] font-bold text-celestial opacity-60">{bed.buffer.duration.toFixed(1)}s</span>
+          <button onClick={onRemove} title="Remove" className="text-celestial hover:text-red-400">
+            <i className="fa-solid fa-xmark text-[10px]"></i>
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="w-full py-2 border border-dashed border-navy rounded-lg text-[10px] font-bold text-celestial hover:border-jade hover:text-jade transition-all disabled:opacity-50"
+        >
+          <i className="fa-solid fa-file-audio mr-1"></i> Import Music or SFX
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="audio/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onLoad(file);
+          e.target.value = '';
+        }}
+      />
+
+      {bed && (
+        <div className="space-y-3">
+          {slider('Level', options.level, `${options.level} dB`, -40, 0, 1, level => update({ level }))}
+          {slider('Fade In', options.fadeIn, `${options.fadeIn.toFixed(1)}s`, 0, 5, 0.5, fadeIn => update({ fadeIn }))}
+          {slider('Fade Out', options.fadeOut, `${options.fadeOut.toFixed(1)}s`, 0, 5, 0.5, fadeOut => update({ fadeOut }))}
+          {slider('Tail', options.tail, `${options.tail.toFixed(1)}s`, 0, 10, 0.5, tail => update({ tail }))}
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 text-[10px] font-bold text-celestial cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.loop}
+                onChange={(e) => update({ loop: e.target.checked })}
+                className="accent-[#3DE1AE]"
+              />
+              Loop
+            </label>
+            <label className="flex items-center gap-2 text-[10px] font-bold text-celestial cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.ducking}
+                onChange={(e) => update({ ducking: e.target.checked })}
+                className="accent-[#3DE1AE]"
+              />
+              Duck under speech
+            </label>
+          </div>
+          {options.ducking && slider('Duck Amount', options.duckAmount, `${options.duckAmount} dB`, -30, 0, 1, duckAmount => update({ duckAmount }))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MusicBedPanel;
@@ -0,0 +1,219 @@
+
+import React, { useState, useRef } from 'react';
+import { Language, Voice, VoicePreset, VoiceStyle } from '../types';
+import { duplicatePreset, mergePresets, parsePresetFile, presetsToJson, PITCH_RANGE, SPEED_RANGE } from '../utils/voicePresets';
+import { downloadBlob } from '../utils/download';
+
+interface PresetManagerProps {
+  presets: VoicePreset[];
+  voices: Voice[];
+  defaultLanguage: Language;
+  // The editor's current settings, for "Save Current"
+  current: Omit<VoicePreset, 'id' | 'name'>;
+  previewingVoice: Voice | null;
+  onChange: (presets: VoicePreset[]) => void;
+  onPreview: (preset: VoicePreset) => void;
+  onApply: (preset: VoicePreset) => void;
+  onClose: () => void;
+}
+
+const PresetManager: React.FC<PresetManagerProps> = ({
+  presets,
+  voices,
+  defaultLanguage,
+  current,
+  previewingVoice,
+  onChange,
+  onPreview,
+  onApply,
+  onClose
+}) => {
+  const [languageFilter, setLanguageFilter] = useState<Language>(defaultLanguage);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const visible = presets.filter(p => p.language === languageFilter);
+  const userPresets = presets.filter(p => !p.builtIn);
+
+  const updatePreset = (id: string, patch: Partial<VoicePreset>) => {
+    onChange(presets.map(p => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const saveCurrent = () => {
+    setLanguageFilter(current.language);
+    onChange([...presets, { ...current, id: crypto.randomUUID(), name: `${current.voice} ${current.style}` }]);
+  };
+
+  const duplicate = (preset: VoicePreset) => {
+    onChange([...presets, duplicatePreset(preset)]);
+  };
+
+  const removePreset = (id: string) => {
+    onChange(presets.filter(p => p.id !== id));
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      onChange(mergePresets(presets, parsePresetFile(await file.text())));
+    } catch (err: any) {
+      setError(err.message || "Could not read preset file.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="glass-panel w-full max-w-[860px] max-h-[90vh] flex flex-col bg-[#050505] shadow-xl overflow-hidden">
+        <header className="flex justify-between items-center border-b border-navy p-6 pb-3">
+          <h2 className="text-sm font-black uppercase tracking-widest text-jade">Voice Presets</h2>
+          <button onClick={onClose} title="Close" className="text-celestial hover:text-white">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </header>
+
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-3">
+          <div className="flex gap-1 p-1 bg-navy/30 rounded-lg">
+            {Object.values(Language).map(lang => (
+              <button
+                key={lang}
+                onClick={() => setLanguageFilter(lang)}
+                className={`px-3 py-1.5 text-[10px] font-bold rounded-md transition-all ${languageFilter === lang ? 'bg-jade text-black' : 'text-celestial hover:text-white'}`}
+              >
+                {lang} ({presets.filter(p => p.language === lang).length})
+              </button>
+            ))}
+          </div>
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+            >
+              <i className="fa-solid fa-file-import mr-1"></i> Import
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([presetsToJson(userPresets)], { type: 'application/json' }), 'awaaz_ai_presets.json')}
+              disabled={userPresets.length === 0}
+              title="Export your presets"
+              className="px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all disabled:opacity-50"
+            >
+              <i className="fa-solid fa-file-export mr-1"></i> Export
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {error && <p className="px-6 pt-3 text-[10px] font-bold text-red-400">{error}</p>}
+
+        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar space-y-2">
+          <datalist id="preset-styles">
+            {Object.values(VoiceStyle).map(s => <option key={s} value={s} />)}
+          </datalist>
+          {visible.map(preset => (
+            <div key={preset.id} className="p-3 bg-navy/20 rounded-lg space-y-2 border border-jade/5">
+              <div className="flex items-center gap-2">
+                <input
+                  value={preset.name}
+                  disabled={preset.builtIn}
+                  placeholder="Preset Name"
+                  onChange={(e) => updatePreset(preset.id, { name: e.target.value })}
+                  className="flex-1 bg-transparent text-xs font-black text-white outline-none border-b border-white/5 focus:border-jade pb-1 disabled:border-transparent"
+                />
+                {preset.builtIn && (
+                  <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]">Built-in</span>
+                )}
+                <button
+                  onClick={() => onPreview(preset)}
+                  disabled={previewingVoice !== null}
+                  title="Preview"
+                  className="w-8 h-8 flex items-center justify-center bg-navy/50 rounded-md text-jade hover:bg-jade hover:text-black transition-all disabled:opacity-50"
+                >
+                  <i className={`fa-solid ${previewingVoice === preset.voice ? 'fa-spinner fa-spin' : 'fa-play'} text-[10px]`}></i>
+                </button>
+                <button
+                  onClick={() => onApply(preset)}
+                  className="px-3 h-8 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+                >
+                  Apply
+                </button>
+                <button
+                  onClick={() => duplicate(preset)}
+                  title="Duplicate"
+                  className="w-8 h-8 flex items-center justify-center bg-navy/50 rounded-md text-celestial hover:text-jade transition-all"
+                >
+                  <i className="fa-solid fa-copy text-[10px]"></i>
+                </button>
+                <button
+                  onClick={() => removePreset(preset.id)}
+                  disabled={preset.builtIn}
+                  title="Delete"
+                  className="w-8 h-8 flex items-center justify-center bg-navy/50 rounded-md text-celestial hover:bg-red-500 hover:text-white transition-all disabled:opacity-30 disabled:hover:bg-navy/50 disabled:hover:text-celestial"
+                >
+                  <i className="fa-solid fa-trash text-[10px]"></i>
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-center">
+                <select
+                  value={preset.voice}
+                  disabled={preset.builtIn}
+                  onChange={(e) => updatePreset(preset.id, { voice: e.target.value as Voice })}
+                  className="bg-black/40 rounded-md px-2 py-1.5 text-[10px] text-jade font-bold outline-none"
+                >
+                  {voices.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+                <input
+                  list="preset-styles"
+                  value={preset.style}
+                  disabled={preset.builtIn}
+                  placeholder="Style"
+                  onChange={(e) => updatePreset(preset.id, { style: e.target.value })}
+                  className="bg-black/40 rounded-md px-2 py-1.5 text-[10px] text-white font-bold outline-none"
+                />
+                <label className="flex items-center gap-2 text-[10px] font-bold text-celestial">
+                  <input
+                    type="range" min={PITCH_RANGE.min} max={PITCH_RANGE.max} step="0.5"
+                    value={preset.pitch}
+                    disabled={preset.builtIn}
+                    onChange={(e) => updatePreset(preset.id, { pitch: parseFloat(e.target.value) })}
+                    className="flex-1 min-w-0"
+                  />
+                  <span className="w-8 text-right text-jade">{preset.pitch > 0 ? `+${preset.pitch}` : preset.pitch}</span>
+                </label>
+                <label className="flex items-center gap-2 text-[10px] font-bold text-celestial">
+                  <input
+                    type="range" min={SPEED_RANGE.min} max={SPEED_RANGE.max} step="0.1"
+                    value={preset.speed}
+                    disabled={preset.builtIn}
+                    onChange={(e) => updatePreset(preset.id, { speed: parseFloat(e.target.value) })}
+                    className="flex-1 min-w-0"
+                  />
+                  <span className="w-8 text-right text-jade">{preset.speed.toFixed(1)}x</span>
+                </label>
+              </div>
+            </div>
+          ))}
+          {visible.length === 0 && (
+            <p className="text-[10px] font-bold text-celestial opacity-40 text-center py-4">No {languageFilter} presets yet.</p>
+          )}
+          <button
+            onClick={saveCurrent}
+            className="w-full py-2 border border-dashed border-navy rounded-lg text-[10px] font-bold text-celestial hover:border-jade hover:text-jade transition-all"
+          >
+            <i className="fa-solid fa-plus mr-1"></i> Save Current Settings as Preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
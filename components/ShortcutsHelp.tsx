@@ -0,0 +1,110 @@
+
+import React, { useState } from 'react';
+import {
+  comboFromEvent,
+  DEFAULT_SHORTCUTS,
+  findShortcut,
+  formatCombo,
+  SHORTCUT_LABELS,
+  ShortcutAction,
+  ShortcutMap,
+  worksWhileTyping
+} from '../utils/shortcuts';
+
+interface ShortcutsHelpProps {
+  shortcuts: ShortcutMap;
+  onChange: (shortcuts: ShortcutMap) => void;
+  onClose: () => void;
+}
+
+const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ shortcuts, onChange, onClose }) => {
+  // Action waiting for its new key combination
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refuses combinations that already belong to another action
+  const assign = (action: ShortcutAction, combo: string): boolean => {
+    const taken = findShortcut(shortcuts, combo);
+    if (taken && taken !== action) {
+      setError(`${formatCombo(combo)} is already used for "${SHORTCUT_LABELS[taken]}".`);
+      return false;
+    }
+    setError(null);
+    onChange({ ...shortcuts, [action]: combo });
+    return true;
+  };
+
+  const record = (action: ShortcutAction, e: React.KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const combo = comboFromEvent(e);
+    if (!combo) return;
+    if (combo === 'Escape' && action !== 'cancel') {
+      setRecording(null);
+      return;
+    }
+    if (assign(action, combo)) setRecording(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="glass-panel w-full max-w-[560px] max-h-[90vh] flex flex-col bg-[#050505] shadow-xl overflow-hidden">
+        <header className="flex justify-between items-center border-b border-navy p-6 pb-3">
+          <h2 className="text-sm font-black uppercase tracking-widest text-jade">Keyboard Shortcuts</h2>
+          <button onClick={onClose} title="Close" className="text-celestial hover:text-white">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </header>
+
+        <div className="px-6 pt-4 flex items-center gap-3">
+          <p className="text-[10px] font-bold text-celestial opacity-60">Click a shortcut, then press the new keys. Esc keeps the old one.</p>
+          <button
+            onClick={() => {
+              setRecording(null);
+              setError(null);
+              onChange({ ...DEFAULT_SHORTCUTS });
+            }}
+            className="ml-auto px-3 py-1.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all whitespace-nowrap"
+          >
+            <i className="fa-solid fa-rotate-left mr-1"></i> Reset All
+          </button>
+        </div>
+
+        {error && <p className="px-6 pt-3 text-[10px] font-bold text-red-400">{error}</p>}
+
+        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar space-y-1">
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action => (
+            <div key={action} className="flex items-center gap-3 py-1.5">
+              <span className="flex-1 text-xs font-bold text-white">{SHORTCUT_LABELS[action]}</span>
+              {!worksWhileTyping(shortcuts[action]) && (
+                <span className="text-[10px] text-celestial opacity-40" title="Keys without Ctrl/Cmd or Alt are ignored while typing">
+                  outside text fields
+                </span>
+              )}
+              <button
+                onClick={() => {
+                  setError(null);
+                  setRecording(recording === action ? null : action);
+                }}
+                onKeyDown={(e) => recording === action && record(action, e)}
+                className={`min-w-[96px] px-2 py-1 rounded-md font-mono text-[10px] transition-all ${recording === action ? 'bg-jade text-black' : 'bg-navy/50 text-celestial hover:text-jade'}`}
+              >
+                {recording === action ? 'Press keys...' : formatCombo(shortcuts[action])}
+              </button>
+              <button
+                onClick={() => assign(action, DEFAULT_SHORTCUTS[action])}
+                disabled={shortcuts[action] === DEFAULT_SHORTCUTS[action]}
+                title="Reset to default"
+                className="text-celestial opacity-60 hover:opacity-100 hover:text-jade transition-all disabled:opacity-10"
+              >
+                <i className="fa-solid fa-rotate-left text-[10px]"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsHelp;
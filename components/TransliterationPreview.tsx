@@ -0,0 +1,136 @@
+
+import React, { useState, useEffect } from 'react';
+import {
+  TransliterationLanguage,
+  ExceptionDictionary,
+  transliterate,
+  loadExceptions,
+  saveExceptions
+} from '../utils/transliteration';
+import { LANGUAGE_DETAILS } from '../types';
+
+interface TransliterationPreviewProps {
+  original: string;
+  language: TransliterationLanguage;
+  onAccept: (converted: string) => void;
+  onSkip: () => void;
+  onCancel: () => void;
+}
+
+const TransliterationPreview: React.FC<TransliterationPreviewProps> = ({
+  original,
+  language,
+  onAccept,
+  onSkip,
+  onCancel
+}) => {
+  const [exceptions, setExceptions] = useState<ExceptionDictionary>(() => loadExceptions(language));
+  const [converted, setConverted] = useState(() => transliterate(original, language, exceptions));
+  const [newRoman, setNewRoman] = useState('');
+  const [newNative, setNewNative] = useState('');
+
+  // Re-run conversion whenever the dictionary changes
+  useEffect(() => {
+    setConverted(transliterate(original, language, exceptions));
+  }, [exceptions, original, language]);
+
+  const updateExceptions = (next: ExceptionDictionary) => {
+    setExceptions(next);
+    saveExceptions(language, next);
+  };
+
+  const addException = () => {
+    const roman = newRoman.trim().toLowerCase();
+    const native = newNative.trim();
+    if (!roman || !native) return;
+    updateExceptions({ ...exceptions, [roman]: native });
+    setNewRoman('');
+    setNewNative('');
+  };
+
+  const removeException = (roman: string) => {
+    const { [roman]: _, ...rest } = exceptions;
+    updateExceptions(rest);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="glass-panel w-full max-w-[900px] max-h-[90vh] flex flex-col bg-[#050505] shadow-xl overflow-hidden">
+        <header className="flex justify-between items-center border-b border-navy p-6 pb-3">
+          <h2 className="text-sm font-black uppercase tracking-widest text-jade">Transliteration Preview · {language}</h2>
+          <button onClick={onCancel} title="Close" className="text-celestial hover:text-white">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </header>
+
+        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Original</label>
+            <div className="w-full h-[220px] overflow-y-auto custom-scrollbar bg-navy/20 rounded-lg p-3 text-sm text-white/60 whitespace-pre-wrap">
+              {original}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Converted (editable)</label>
+            <textarea
+              dir={LANGUAGE_DETAILS[language].direction}
+              value={converted}
+              onChange={(e) => setConverted(e.target.value)}
+              className="w-full h-[220px] bg-navy/20 rounded-lg p-3 text-lg text-white outline-none border border-navy/30 focus:border-jade resize-none custom-scrollbar"
+            />
+          </div>
+
+          <div className="md:col-span-2 space-y-3">
+            <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">Exceptions Dictionary</label>
+            <div className="flex gap-2">
+              <input
+                value={newRoman}
+                onChange={(e) => setNewRoman(e.target.value)}
+                placeholder="Roman word"
+                className="flex-1 bg-navy/20 rounded-lg px-4 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
+              />
+              <input
+                dir={LANGUAGE_DETAILS[language].direction}
+                value={newNative}
+                onChange={(e) => setNewNative(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addException()}
+                placeholder="Native spelling"
+                className="flex-1 bg-navy/20 rounded-lg px-4 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
+              />
+              <button
+                onClick={addException}
+                className="px-4 bg-navy rounded-lg text-[10px] font-bold text-celestial hover:text-jade transition-all"
+              >
+                Add
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(exceptions).map(([roman, native]) => (
+                <span key={roman} className="flex items-center gap-2 px-3 py-1 bg-navy rounded-md text-[10px] font-bold text-celestial">
+                  {roman} → <span className="text-jade text-xs">{native}</span>
+                  <button onClick={() => removeException(roman)} title="Remove" className="opacity-50 hover:opacity-100 hover:text-red-400">
+                    <i className="fa-solid fa-xmark"></i>
+                  </button>
+                </span>
+              ))}
+              {Object.keys(exceptions).length === 0 && (
+                <span className="text-[10px] font-bold text-celestial opacity-40">No custom spellings yet.</span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <footer className="flex justify-end gap-3 border-t border-navy p-6 pt-4">
+          <button onClick={onSkip} className="px-5 py-2.5 rounded-full text-xs font-bold bg-navy text-white hover:bg-opacity-80">
+            Use Original
+          </button>
+          <button onClick={() => onAccept(converted)} className="px-5 py-2.5 rounded-full text-xs btn-primary">
+            Accept &amp; Generate
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default TransliterationPreview;
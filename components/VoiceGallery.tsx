@@ -0,0 +1,233 @@
+
+import React, { useMemo, useState } from 'react';
+import { Language, LANGUAGE_DETAILS, Voice, VOICE_DETAILS } from '../types';
+import { filterVoices, loadFavoriteVoices, saveFavoriteVoices, VoiceFilter } from '../utils/voiceCatalog';
+
+interface VoiceGalleryProps {
+  voices: Voice[];
+  selected: Voice;
+  // What the chosen voice is for, e.g. "Single Speaker" or a speaker's name
+  target: string;
+  initialGender: VoiceFilter['gender'];
+  language: Language;
+  previewingVoice: Voice | null;
+  onPreview: (voice: Voice, text: string) => void;
+  onSelect: (voice: Voice) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_SENTENCES: Record<Language, string> = {
+  [Language.ENGLISH]: 'Hello, this is a voice preview.',
+  [Language.URDU]: 'السلام علیکم، یہ آواز کا نمونہ ہے۔',
+  [Language.HINDI]: 'नमस्ते, यह आवाज़ का नमूना है।'
+};
+
+const PITCH_RANGES: VoiceFilter['pitchRange'][] = ['All', 'Low', 'Mid', 'High'];
+
+const VoiceGallery: React.FC<VoiceGalleryProps> = ({
+  voices,
+  selected,
+  target,
+  initialGender,
+  language,
+  previewingVoice,
+  onPreview,
+  onSelect,
+  onClose
+}) => {
+  const [filter, setFilter] = useState<VoiceFilter>({
+    query: '',
+    gender: initialGender,
+    pitchRange: 'All',
+    language: 'All',
+    favoritesOnly: false
+  });
+  const [favorites, setFavorites] = useState<Voice[]>(() => loadFavoriteVoices());
+  const [sentence, setSentence] = useState(SAMPLE_SENTENCES[language]);
+  // Voices picked for A/B comparison, at most two
+  const [compare, setCompare] = useState<Voice[]>([]);
+
+  const visible = useMemo(() => filterVoices(voices, filter, favorites), [voices, filter, favorites]);
+
+  const updateFilter = (patch: Partial<VoiceFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const toggleFavorite = (voice: Voice) => {
+    const next = favorites.includes(voice) ? favorites.filter(v => v !== voice) : [...favorites, voice];
+    setFavorites(next);
+    saveFavoriteVoices(next);
+  };
+
+  // A third pick replaces the older of the two
+  const toggleCompare = (voice: Voice) => {
+    setCompare(prev => (prev.includes(voice) ? prev.filter(v => v !== voice) : [...prev, voice].slice(-2)));
+  };
+
+  const preview = (voice: Voice) => {
+    if (sentence.trim()) onPreview(voice, sentence.trim());
+  };
+
+  const playButton = (voice: Voice, size: string) => (
+    <button
+      onClick={() => preview(voice)}
+      disabled={!!previewingVoice || !sentence.trim()}
+      title="Preview"
+      className={`${size} flex items-center justify-center bg-navy/50 rounded-md text-jade hover:bg-jade hover:text-black transition-all disabled:opacity-50`}
+    >
+      <i className={`fa-solid ${previewingVoice === voice ? 'fa-spinner fa-spin' : 'fa-play'} text-[10px]`}></i>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="glass-panel w-full max-w-[960px] max-h-[90vh] flex flex-col bg-[#050505] shadow-xl overflow-hidden">
+        <header className="flex justify-between items-center border-b border-navy p-6 pb-3">
+          <h2 className="text-sm font-black uppercase tracking-widest text-jade">
+            Voice Gallery <span className="text-celestial opacity-60">· {target}</span>
+          </h2>
+          <button onClick={onClose} title="Close" className="text-celestial hover:text-white">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </header>
+
+        <div className="px-6 pt-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="search"
+              value={filter.query}
+              onChange={(e) => updateFilter({ query: e.target.value })}
+              placeholder="Search by name, tone or use case..."
+              className="flex-1 min-w-[200px] bg-navy/20 rounded-lg px-4 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
+            />
+            <div className="flex gap-1 p-1 bg-navy/30 rounded-lg">
+              {(['All', 'Male', 'Female'] as const).map(g => (
+                <button
+                  key={g}
+                  onClick={() => updateFilter({ gender: g })}
+                  className={`px-3 py-1.5 text-[10px] font-bold rounded-md transition-all ${filter.gender === g ? 'bg-jade text-black' : 'text-celestial hover:text-white'}`}
+                >
+                  {g}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1 p-1 bg-navy/30 rounded-lg">
+              {PITCH_RANGES.map(range => (
+                <button
+                  key={range}
+                  onClick={() => updateFilter({ pitchRange: range })}
+                  className={`px-3 py-1.5 text-[10px] font-bold rounded-md transition-all ${filter.pitchRange === range ? 'bg-jade text-black' : 'text-celestial hover:text-white'}`}
+                >
+                  {range === 'All' ? 'Any Pitch' : range}
+                </button>
+              ))}
+            </div>
+            <select
+              value={filter.language}
+              onChange={(e) => updateFilter({ language: e.target.value as VoiceFilter['language'] })}
+              className="bg-navy/40 border border-navy/50 rounded-md px-2 py-1.5 text-[10px] text-white font-bold outline-none"
+            >
+              <option value="All">Any Language</option>
+              {Object.values(Language).map(lang => <option key={lang} value={lang}>{lang}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-[10px] font-bold text-celestial cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filter.favoritesOnly}
+                onChange={(e) => updateFilter({ favoritesOnly: e.target.checked })}
+                className="accent-[#3DE1AE]"
+              />
+              Favorites
+            </label>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60 whitespace-nowrap">Preview Text</label>
+            <input
+              dir={LANGUAGE_DETAILS[language].direction}
+              value={sentence}
+              onChange={(e) => setSentence(e.target.value)}
+              className="flex-1 bg-navy/20 rounded-lg px-4 py-2 text-xs text-white outline-none border border-navy/30 focus:border-jade"
+            />
+          </div>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto custom-scrollbar">
+          {visible.length === 0 ? (
+            <p className="text-[10px] font-bold text-celestial opacity-40 text-center py-12">No voices match these filters.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+              {visible.map(voice => {
+                const details = VOICE_DETAILS[voice];
+                const comparing = compare.indexOf(voice);
+                return (
+                  <div
+                    key={voice}
+                    className={`p-4 bg-navy/20 rounded-lg space-y-2 border ${voice === selected ? 'border-jade' : 'border-jade/5'}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-black text-white">{voice}</span>
+                      <span className="text-[10px] font-bold text-celestial opacity-60">{details.gender} · {details.pitchRange}</span>
+                      <button
+                        onClick={() => toggleFavorite(voice)}
+                        title={favorites.includes(voice) ? 'Remove from favorites' : 'Add to favorites'}
+                        className="ml-auto text-jade hover:text-white"
+                      >
+                        <i className={`${favorites.includes(voice) ? 'fa-solid' : 'fa-regular'} fa-star text-[10px]`}></i>
+                      </button>
+                    </div>
+                    <p className="text-[10px] font-bold text-jade">{details.tone.join(' · ')}</p>
+                    <p className="text-[10px] text-white/60">{details.useCases.join(', ')}</p>
+                    <p className="text-[10px] text-celestial opacity-60">{details.languages.join(', ')}</p>
+                    <div className="flex gap-1 pt-1">
+                      {playButton(voice, 'w-7 h-7')}
+                      <button
+                        onClick={() => toggleCompare(voice)}
+                        title="Compare A/B"
+                        className={`px-2 h-7 rounded-md text-[10px] font-bold transition-all ${comparing >= 0 ? 'bg-jade text-black' : 'bg-navy/50 text-celestial hover:text-jade'}`}
+                      >
+                        {comparing >= 0 ? (comparing === 0 ? 'A' : 'B') : 'A/B'}
+                      </button>
+                      <button
+                        onClick={() => onSelect(voice)}
+                        className="ml-auto px-3 h-7 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+                      >
+                        {voice === selected ? 'Selected' : 'Use'}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {compare.length > 0 && (
+          <div className="border-t border-navy p-6 pt-4 space-y-2">
+            <label className="text-[10px] font-black text-celestial uppercase tracking-widest opacity-60">
+              A/B Comparison{compare.length < 2 && ' · pick another voice'}
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {compare.map((voice, idx) => (
+                <div key={voice} className="flex items-center gap-3 p-3 bg-navy/20 rounded-lg">
+                  <span className="bg-jade/10 text-jade px-2 py-0.5 rounded-md font-black text-[10px]">{idx === 0 ? 'A' : 'B'}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black text-white">{voice}</p>
+                    <p className="text-[10px] font-bold text-celestial opacity-60 truncate">{VOICE_DETAILS[voice].tone.join(' · ')}</p>
+                  </div>
+                  {playButton(voice, 'w-8 h-8')}
+                  <button
+                    onClick={() => onSelect(voice)}
+                    className="px-3 h-8 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+                  >
+                    Use
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VoiceGallery;
@@ -0,0 +1,273 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { SentenceSpan } from '../types';
+
+export type WaveformEdit = 'trim' | 'cut' | 'fadeIn' | 'fadeOut';
+
+interface WaveformEditorProps {
+  buffer: AudioBuffer;
+  spans: SentenceSpan[];
+  canUndo: boolean;
+  // Index into spans of the sentence being re-synthesized, if any
+  regeneratingSpan: number | null;
+  onEdit: (edit: WaveformEdit, start: number, end: number) => void;
+  onUndo: () => void;
+  onRegenerate: (spanIndex: number) => void;
+}
+
+const CANVAS_HEIGHT = 120;
+const MAX_ZOOM = 64;
+
+function formatTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${m}:${s}`;
+}
+
+const WaveformEditor: React.FC<WaveformEditorProps> = ({
+  buffer,
+  spans,
+  canUndo,
+  regeneratingSpan,
+  onEdit,
+  onUndo,
+  onRegenerate
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const playbackRef = useRef<{ context: AudioContext; source: AudioBufferSourceNode } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [dragAnchor, setDragAnchor] = useState<number | null>(null);
+  const [width, setWidth] = useState(600);
+
+  const duration = buffer.duration;
+  const viewDuration = duration / zoom;
+
+  // A new buffer invalidates the old selection and view
+  useEffect(() => {
+    setSelection(null);
+    setViewStart(v => Math.min(v, Math.max(0, duration - viewDuration)));
+  }, [buffer]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.max(100, Math.floor(entry.contentRect.width))));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => () => stopPlayback(), []);
+
+  // Min/max peaks per pixel for the visible range
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = CANVAS_HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, CANVAS_HEIGHT);
+
+    const toX = (t: number) => ((t - viewStart) / viewDuration) * width;
+
+    // Alternate sentence backgrounds so boundaries are visible
+    spans.forEach((span, i) => {
+      ctx.fillStyle = i % 2 === 0 ? 'rgba(5, 49, 84, 0.35)' : 'rgba(5, 49, 84, 0.15)';
+      ctx.fillRect(toX(span.start), 0, toX(span.end) - toX(span.start), CANVAS_HEIGHT);
+    });
+
+    if (selection) {
+      ctx.fillStyle = 'rgba(61, 225, 174, 0.18)';
+      ctx.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), CANVAS_HEIGHT);
+    }
+
+    const data = buffer.getChannelData(0);
+    const samplesPerPixel = (viewDuration * buffer.sampleRate) / width;
+    const mid = CANVAS_HEIGHT / 2;
+    ctx.fillStyle = '#3DE1AE';
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(viewStart * buffer.sampleRate + x * samplesPerPixel);
+      const to = Math.min(data.length, Math.max(from + 1, Math.floor(from + samplesPerPixel)));
+      let min = 0, max = 0;
+      for (let i = from; i < to; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+      ctx.fillRect(x, mid - max * mid, 1, Math.max(1, (max - min) * mid));
+    }
+
+    ctx.fillStyle = '#DDDAC4';
+    ctx.globalAlpha = 0.4;
+    spans.forEach(span => ctx.fillRect(toX(span.start), 0, 1, CANVAS_HEIGHT));
+    ctx.globalAlpha = 1;
+  }, [buffer, spans, selection, zoom, viewStart, width]);
+
+  const timeAt = (clientX: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return viewStart + fraction * viewDuration;
+  };
+
+  const changeZoom = (next: number, anchor: number = viewStart + viewDuration / 2) => {
+    const clamped = Math.min(MAX_ZOOM, Math.max(1, next));
+    const nextView = duration / clamped;
+    setZoom(clamped);
+    setViewStart(Math.min(Math.max(0, anchor - nextView / 2), duration - nextView));
+  };
+
+  const stopPlayback = () => {
+    playbackRef.current?.source.stop();
+    playbackRef.current?.context.close();
+    playbackRef.current = null;
+  };
+
+  const playSelection = () => {
+    stopPlayback();
+    const context = new AudioContext();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    const start = selection?.start ?? 0;
+    const end = selection?.end ?? duration;
+    source.start(0, start, end - start);
+    source.onended = () => {
+      if (playbackRef.current?.source === source) stopPlayback();
+    };
+    playbackRef.current = { context, source };
+  };
+
+  // Sentence with the largest overlap with the selection
+  let selectedSpan: number | null = null;
+  let selectedOverlap = 0;
+  for (let i = 0; selection && i < spans.length; i++) {
+    const overlap = Math.min(spans[i].end, selection.end) - Math.max(spans[i].start, selection.start);
+    if (overlap > selectedOverlap) {
+      selectedSpan = i;
+      selectedOverlap = overlap;
+    }
+  }
+
+  const hasSelection = selection !== null && selection.end - selection.start > 0.01;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={playSelection}
+          title={hasSelection ? 'Play selection' : 'Play'}
+          className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all"
+        >
+          <i className="fa-solid fa-play mr-1"></i> {hasSelection ? 'Selection' : 'Play'}
+        </button>
+        {(['trim', 'cut', 'fadeIn', 'fadeOut'] as WaveformEdit[]).map(edit => (
+          <button
+            key={edit}
+            onClick={() => selection && onEdit(edit, selection.start, selection.end)}
+            disabled={!hasSelection}
+            className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all disabled:opacity-30"
+          >
+            {{ trim: 'Trim', cut: 'Cut', fadeIn: 'Fade In', fadeOut: 'Fade Out' }[edit]}
+          </button>
+        ))}
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all disabled:opacity-30"
+        >
+          <i className="fa-solid fa-rotate-left mr-1"></i> Undo
+        </button>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => changeZoom(zoom / 2)}
+            disabled={zoom <= 1}
+            title="Zoom out"
+            className="w-6 h-6 flex items-center justify-center bg-navy rounded-md text-[10px] text-celestial hover:text-jade disabled:opacity-30"
+          >
+            <i className="fa-solid fa-magnifying-glass-minus"></i>
+          </button>
+          <span className="text-[10px] font-bold text-celestial opacity-60 w-8 text-center">{zoom}x</span>
+          <button
+            onClick={() => changeZoom(zoom * 2, selection ? (selection.start + selection.end) / 2 : undefined)}
+            disabled={zoom >= MAX_ZOOM}
+            title="Zoom in"
+            className="w-6 h-6 flex items-center justify-center bg-navy rounded-md text-[10px] text-celestial hover:text-jade disabled:opacity-30"
+          >
+            <i className="fa-solid fa-magnifying-glass-plus"></i>
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="w-full">
+        <canvas
+          ref={canvasRef}
+          style={{ width: '100%', height: CANVAS_HEIGHT }}
+          className="rounded-lg bg-black/40 cursor-crosshair block"
+          onMouseDown={(e) => {
+            const t = timeAt(e.clientX);
+            setDragAnchor(t);
+            setSelection({ start: t, end: t });
+          }}
+          onMouseMove={(e) => {
+            if (dragAnchor === null) return;
+            const t = timeAt(e.clientX);
+            setSelection({ start: Math.min(dragAnchor, t), end: Math.max(dragAnchor, t) });
+          }}
+          onMouseUp={() => setDragAnchor(null)}
+          onMouseLeave={() => setDragAnchor(null)}
+          onDoubleClick={(e) => {
+            // Double-click selects the whole sentence under the cursor
+            const t = timeAt(e.clientX);
+            const span = spans.find(s => t >= s.start && t < s.end);
+            if (span) setSelection({ start: span.start, end: span.end });
+          }}
+          onWheel={(e) => {
+            if (zoom === 1) return;
+            setViewStart(v => Math.min(Math.max(0, v + (e.deltaY / CANVAS_HEIGHT) * viewDuration * 0.25), duration - viewDuration));
+          }}
+        />
+        {zoom > 1 && (
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, duration - viewDuration)}
+            step={0.01}
+            value={viewStart}
+            onChange={(e) => setViewStart(parseFloat(e.target.value))}
+            className="w-full mt-2"
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] font-bold text-celestial">
+        <span className="opacity-60">
+          {hasSelection ? `${formatTime(selection!.start)} – ${formatTime(selection!.end)}` : `Length ${formatTime(duration)}`}
+        </span>
+        {selectedSpan !== null && (
+          <>
+            <span className="flex-1 min-w-0 truncate text-white/70" title={spans[selectedSpan].text}>
+              “{spans[selectedSpan].text}”
+            </span>
+            <button
+              onClick={() => onRegenerate(selectedSpan)}
+              disabled={regeneratingSpan !== null}
+              className="px-2 py-0.5 bg-navy rounded-md text-[10px] font-bold text-celestial hover:text-jade transition-all disabled:opacity-50"
+            >
+              {regeneratingSpan === selectedSpan ? (
+                <><i className="fa-solid fa-spinner fa-spin mr-1"></i> Regenerating</>
+              ) : (
+                <><i className="fa-solid fa-rotate mr-1"></i> Regenerate Sentence</>
+              )}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformEditor;
@@ -0,0 +1,168 @@
+
+/**
+ * Content-addressed cache of synthesized audio, so identical requests (voice
+ * previews, re-generating an unchanged script) don't call the API twice.
+ * Entries are keyed by a SHA-256 of everything that shapes the audio and
+ * evicted least-recently-used once the cache outgrows MAX_CACHE_BYTES.
+ *
+ * The cache is best effort: if IndexedDB is unavailable, lookups miss and
+ * writes are dropped rather than failing the render.
+ */
+
+const DB_NAME = 'awaazai-audio-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'clips';
+// About 35 minutes of 24 kHz 16-bit audio
+const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+
+interface CachedClip {
+  key: string;
+  audio: string; // base64 PCM, as returned by the API
+  size: number; // decoded bytes
+  lastUsed: number;
+}
+
+export interface AudioCacheStats {
+  count: number;
+  bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Notified after every write or clear, so views showing the stats stay current
+const changeListeners = new Set<() => void>();
+
+/**
+ * Calls `listener` whenever the cache contents change. Returns an unsubscribe function.
+ */
+export function onAudioCacheChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function notifyChange() {
+  changeListeners.forEach(listener => listener());
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        // Key cursors over this index read recency and size without loading the audio
+        store.createIndex('usage', ['lastUsed', 'size']);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs `run` in one transaction on the cache store and resolves with its
+ * return value once the transaction commits.
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => () => T): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const result = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(result());
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Hex SHA-256 of the JSON form of `parts`, or null where hashing is
+ * unavailable (crypto.subtle only exists on secure origins, not plain http
+ * on the LAN). Callers then skip the cache.
+ */
+export async function audioCacheKey(parts: unknown): Promise<string | null> {
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  } catch (err) {
+    console.warn("Audio cache key unavailable, skipping the cache", err);
+    return null;
+  }
+}
+
+/**
+ * Returns the cached audio for `key` and marks it as recently used.
+ */
+export async function getCachedAudio(key: string): Promise<string | null> {
+  try {
+    return await withStore('readwrite', store => {
+      let audio: string | null = null;
+      const request = store.get(key);
+      request.onsuccess = () => {
+        const clip = request.result as CachedClip | undefined;
+        if (!clip) return;
+        audio = clip.audio;
+        store.put({ ...clip, lastUsed: Date.now() });
+      };
+      return () => audio;
+    });
+  } catch (err) {
+    console.warn("Audio cache read failed", err);
+    return null;
+  }
+}
+
+/**
+ * Stores `audio` under `key`, then evicts the least recently used clips until
+ * the cache is back under its size cap.
+ */
+export async function putCachedAudio(key: string, audio: string): Promise<void> {
+  const clip: CachedClip = { key, audio, size: Math.floor((audio.length * 3) / 4), lastUsed: Date.now() };
+  try {
+    await withStore('readwrite', store => {
+      store.put(clip);
+      // Walk newest first, keeping clips while they fit in the budget
+      let total = 0;
+      const cursorRequest = store.index('usage').openKeyCursor(null, 'prev');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const [, size] = cursor.key as [number, number];
+        if (total + size > MAX_CACHE_BYTES) store.delete(cursor.primaryKey);
+        else total += size;
+        cursor.continue();
+      };
+      return () => undefined;
+    });
+    notifyChange();
+  } catch (err) {
+    console.warn("Audio cache write failed", err);
+  }
+}
+
+export async function getAudioCacheStats(): Promise<AudioCacheStats> {
+  return withStore('readonly', store => {
+    const stats: AudioCacheStats = { count: 0, bytes: 0 };
+    const cursorRequest = store.index('usage').openKeyCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      stats.count++;
+      stats.bytes += (cursor.key as [number, number])[1];
+      cursor.continue();
+    };
+    return () => stats;
+  });
+}
+
+export async function clearAudioCache(): Promise<void> {
+  await withStore('readwrite', store => {
+    store.clear();
+    return () => undefined;
+  });  notifyChange();
+}
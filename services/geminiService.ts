@@ -1,89 +1,147 @@
 
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
-import { Voice, SpeakerConfig } from "../types";
+import { GoogleGenAI, Modality, SpeechConfig } from "@google/genai";
+import { Language, LANGUAGE_DETAILS, MultiTTSRequest, SpeakerConfig, SynthesisResult, TTSProvider, TTSRequest, Voice } from "../types";
+import { applyLexicon, dialogueLexiconLanguage } from "../utils/lexicon";
+import { TTSError, extractAudio, isCancelled, withRetry } from "./ttsErrors";
+import { audioCacheKey, getCachedAudio, putCachedAudio } from "./audioCache";
 
 const MODEL_NAME = 'gemini-2.5-flash-preview-tts';
 
-export async function generateTTSAudio(
-  text: string,
-  style: string,
-  voice: Voice,
-  speed: number,
-  pitch: number
-): Promise<string | undefined> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Create a natural language instruction for speed and pitch
+// The multi-speaker voice config accepts at most this many speakers per request
+export const MAX_MULTI_SPEAKERS = 2;
+
+function createClient(): GoogleGenAI {
+  if (!process.env.API_KEY) throw new TTSError('missing-api-key');
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+}
+
+function languageInstruction(language: Language): string {
+  return `in ${language} with ${LANGUAGE_DETAILS[language].accent}`;
+}
+
+/**
+ * Reads through the audio cache. The key covers the model, the final prompt
+ * and the voice config, so any change to text, settings or lexicon misses.
+ * Without a key (no crypto.subtle) the API is called directly.
+ */
+async function requestAudio(prompt: string, speechConfig: SpeechConfig, signal?: AbortSignal): Promise<SynthesisResult> {
+  const key = await audioCacheKey({ model: MODEL_NAME, prompt, speechConfig });
+  const cached = key && await getCachedAudio(key);
+  if (cached) return { audio: cached, cached: true };
+
+  const ai = createClient();
+  const audio = await withRetry(async () => extractAudio(await ai.models.generateContent({
+    model: MODEL_NAME,
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      abortSignal: signal,
+      responseModalities: [Modality.AUDIO],
+      speechConfig
+    }
+  })), { signal });
+  if (key) await putCachedAudio(key, audio);
+  return { audio, cached: false };
+}
+
+/**
+ * Returns base64 PCM audio, from the cache when the same request was made
+ * before. Transient failures are retried with backoff; other failures, and
+ * aborting `signal`, reject with a TTSError.
+ */
+export async function generateTTSAudio({
+  text,
+  style = '',
+  voice,
+  speed,
+  pitch,
+  language,
+  lexicon = []
+}: TTSRequest, signal?: AbortSignal): Promise<SynthesisResult> {
+  // Create a natural language instruction for language, speed and pitch
+  const languageText = language ? languageInstruction(language) : "";
   const speedText = speed === 1.0 ? "" : `at ${speed}x speed`;
   const pitchText = pitch > 2 ? "with a very high pitch" : 
                     pitch > 0 ? "with a high pitch" :
                     pitch < -2 ? "with a very deep voice" :
                     pitch < 0 ? "with a deep voice" : "";
   
-  const instructionParts = [speedText, pitchText, style].filter(Boolean);
+  const instructionParts = [languageText, speedText, pitchText, style].filter(Boolean);
   const instruction = instructionParts.length > 0 
     ? `(Instruction: Speak ${instructionParts.join(", ")}) ` 
     : "";
 
-  const prompt = `${instruction}${text}`;
+  const prompt = `${instruction}${applyLexicon(text, lexicon, language)}`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice },
-          },
-        },
+    return await requestAudio(prompt, {
+      voiceConfig: {
+        prebuiltVoiceConfig: { voiceName: voice },
       },
-    });
-
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    }, signal);
   } catch (error) {
-    console.error("Gemini TTS Error:", error);
+    if (!isCancelled(error)) console.error("Gemini TTS Error:", error);
     throw error;
   }
 }
 
-export async function generateMultiTTSAudio(
-  dialogue: string,
-  speakers: SpeakerConfig[],
-  speed: number,
-  pitch: number
-): Promise<string | undefined> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Speaker speed and pitch are relative to the global instruction
+function speakerDirection({ style, speed = 1, pitch = 0 }: SpeakerConfig, language?: Language): string[] {
+  return [
+    language ? languageInstruction(language) : "",
+    style && style !== 'Neutral' ? `in a ${style.toLowerCase()} tone` : "",
+    speed === 1 ? "" : speed < 1 ? `slower than the others (${speed}x)` : `faster than the others (${speed}x)`,
+    pitch > 0 ? "with a higher pitch" : pitch < 0 ? "with a deeper voice" : ""
+  ].filter(Boolean);
+}
 
+export async function generateMultiTTSAudio({
+  dialogue,
+  speakers,
+  speed,
+  pitch,
+  language,
+  lexicon = []
+}: MultiTTSRequest, signal?: AbortSignal): Promise<SynthesisResult> {
   const speedText = speed === 1.0 ? "" : `at ${speed}x speed`;
   const pitchText = pitch > 0 ? "with higher pitch" : pitch < 0 ? "with deeper pitch" : "";
   const instruction = (speedText || pitchText) ? `(Global Instruction: Speak ${[speedText, pitchText].filter(Boolean).join(" and ")})\n\n` : "";
 
-  const prompt = `${instruction}${dialogue}`;
+  // Per-speaker language, style and delivery; language falls back to the global one
+  const speakerNotes = speakers
+    .map(s => ({ name: s.name, parts: speakerDirection(s, s.language ?? language) }))
+    .filter(s => s.parts.length > 0)
+    .map(s => `${s.name} speaks ${s.parts.join(", ")}`);
+  const languageNote = speakerNotes.length > 0 ? `(Speaker Notes: ${speakerNotes.join("; ")})\n\n` : "";
+
+  const prompt = `${instruction}${languageNote}${applyLexicon(dialogue, lexicon, dialogueLexiconLanguage(speakers, language))}`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          multiSpeakerVoiceConfig: {
-            speakerVoiceConfigs: speakers.map(s => ({
-              speaker: s.name,
-              voiceConfig: {
-                prebuiltVoiceConfig: { voiceName: s.voice }
-              }
-            }))
+    return await requestAudio(prompt, {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: speakers.map(s => ({
+          speaker: s.name,
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: s.voice }
           }
-        }
+        }))
       }
-    });
-
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    }, signal);
   } catch (error) {
-    console.error("Gemini Multi-TTS Error:", error);
+    if (!isCancelled(error)) console.error("Gemini Multi-TTS Error:", error);
     throw error;
   }
 }
+
+export const geminiProvider: TTSProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  capabilities: {
+    maxSpeakers: MAX_MULTI_SPEAKERS,
+    languages: Object.values(Language),
+    styleInstructions: true,
+    sampleRate: 24000
+  },
+  listVoices: () => Object.values(Voice),
+  synthesize: generateTTSAudio,
+  synthesizeDialogue: generateMultiTTSAudio
+};
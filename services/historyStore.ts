@@ -0,0 +1,74 @@
+
+import { HistoryEntry } from "../types";
+
+const DB_NAME = 'awaazai-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'renders';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against the history store and resolves with its result.
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await withStore('readwrite', store => store.put(entry));
+}
+
+/**
+ * Returns all saved renders, newest first.
+ */
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function renameHistoryEntry(id: string, name: string): Promise<void> {
+  const entry = await withStore<HistoryEntry | undefined>('readonly', store => store.get(id));
+  if (!entry) return;
+  await withStore('readwrite', store => store.put({ ...entry, name }));
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * Storage used and available to this origin, when the browser reports it.
+ */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
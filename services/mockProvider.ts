@@ -0,0 +1,187 @@
+
+import { Language, MultiTTSRequest, SpeakerConfig, SynthesisResult, TTSProvider, TTSRequest, Voice, VOICE_DETAILS } from "../types";
+import { applyLexicon, dialogueLexiconLanguage } from "../utils/lexicon";
+import { encodeBase64 } from "../utils/audioProcessing";
+import { TTSError, sleep } from "./ttsErrors";
+
+/**
+ * Offline provider that synthesizes robotic but speech-shaped audio with a
+ * small formant synthesizer. Output is deterministic for a given request, so
+ * the whole pipeline (chunking, stitching, alignment, captions, exports) can
+ * run without a network or API key.
+ */
+
+const SAMPLE_RATE = 24000;
+// Simulated request latency, long enough to exercise progress and Cancel
+const LATENCY_MS = 250;
+
+// F1-F3 of the cardinal vowels a, e, i, o, u (Hz)
+const VOWEL_FORMANTS = [
+  [730, 1090, 2440],
+  [530, 1840, 2480],
+  [270, 2290, 3010],
+  [570, 840, 2410],
+  [300, 870, 2240]
+];
+const NASAL_FORMANTS = [250, 1200, 2500];
+const FORMANT_GAINS = [1, 0.5, 0.25];
+const FORMANT_BANDWIDTHS = [80, 100, 120];
+
+type Segment =
+  | { kind: 'voiced'; formants: number[]; seconds: number }
+  | { kind: 'noise'; seconds: number }
+  | { kind: 'silence'; seconds: number };
+
+// Stable hash in [0, 1), used to give each voice its own pitch and noise seed
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 0x01000193);
+  }
+  return (h >>> 0) / 0x100000000;
+}
+
+/**
+ * Maps text to a rough phone sequence. Latin letters get vowel, fricative,
+ * plosive or nasal sounds; letters of other scripts (Urdu, Hindi) are voiced
+ * as vowels picked from their code point so each word still sounds distinct.
+ */
+function textToSegments(text: string): Segment[] {
+  const segments: Segment[] = [];
+  const spoken = text.replace(/\[[^\]\n]*\]|<[^>\n]*>/g, ' ').toLowerCase();
+
+  for (const ch of spoken) {
+    const vowel = 'aeiou'.indexOf(ch);
+    if (/\s/.test(ch)) segments.push({ kind: 'silence', seconds: 0.04 });
+    else if (/[.!?۔।]/.test(ch)) segments.push({ kind: 'silence', seconds: 0.3 });
+    else if (/[,;:،]/.test(ch)) segments.push({ kind: 'silence', seconds: 0.15 });
+    else if (vowel >= 0) segments.push({ kind: 'voiced', formants: VOWEL_FORMANTS[vowel], seconds: 0.09 });
+    else if ('szfhxc'.includes(ch)) segments.push({ kind: 'noise', seconds: 0.06 });
+    else if ('ptkbdgq'.includes(ch)) {
+      segments.push({ kind: 'silence', seconds: 0.02 }, { kind: 'noise', seconds: 0.015 });
+    } else if ('mnlrwyjv'.includes(ch)) segments.push({ kind: 'voiced', formants: NASAL_FORMANTS, seconds: 0.05 });
+    else if (/\p{L}/u.test(ch)) {
+      segments.push({ kind: 'voiced', formants: VOWEL_FORMANTS[ch.codePointAt(0)! % 5], seconds: 0.08 });
+    }
+    // Digits, combining marks and symbols are skipped
+  }
+  return segments;
+}
+
+/**
+ * Renders segments through a sawtooth glottal source and three parallel
+ * two-pole formant resonators. Pitch falls slightly across the utterance.
+ */
+function renderSegments(segments: Segment[], voice: Voice, speed: number, pitch: number): Float32Array {
+  const character = hash(voice);
+  const baseF0 = (VOICE_DETAILS[voice].gender === 'Female' ? 210 : 115) * (0.9 + 0.2 * character) * 2 ** (pitch / 12);
+  const lengths = segments.map(s => Math.round((s.seconds / speed) * SAMPLE_RATE));
+  const total = lengths.reduce((n, l) => n + l, 0);
+  const out = new Float32Array(total);
+
+  const y1 = [0, 0, 0];
+  const y2 = [0, 0, 0];
+  const ramp = Math.round(0.005 * SAMPLE_RATE);
+  let seed = Math.floor(character * 0x7fffffff) || 1;
+  let phase = 0;
+  let pos = 0;
+
+  segments.forEach((segment, index) => {
+    const length = lengths[index];
+    const coeffs = segment.kind === 'voiced'
+      ? segment.formants.map((f, k) => {
+          const r = Math.exp((-Math.PI * FORMANT_BANDWIDTHS[k]) / SAMPLE_RATE);
+          return { b1: 2 * r * Math.cos((2 * Math.PI * f) / SAMPLE_RATE), b2: -r * r, gain: (1 - r) * FORMANT_GAINS[k] };
+        })
+      : [];
+
+    for (let i = 0; i < length; i++, pos++) {
+      const envelope = Math.min(1, i / ramp, (length - i) / ramp);
+      let sample = 0;
+
+      if (segment.kind === 'voiced') {
+        const f0 = baseF0 * (1.1 - 0.2 * (pos / total));
+        phase = (phase + f0 / SAMPLE_RATE) % 1;
+        const source = 2 * phase - 1;
+        for (let k = 0; k < coeffs.length; k++) {
+          const y = coeffs[k].gain * source + coeffs[k].b1 * y1[k] + coeffs[k].b2 * y2[k];
+          y2[k] = y1[k];
+          y1[k] = y;
+          sample += y;
+        }
+      } else if (segment.kind === 'noise') {
+        seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+        sample = ((seed / 0x7fffffff) * 2 - 1) * 0.05;
+      }
+      out[pos] = sample * envelope;
+    }
+  });
+  return out;
+}
+
+// Peak-normalizes to -6 dBFS and packs as base64 little-endian 16-bit PCM
+function toResult(parts: Float32Array[]): SynthesisResult {
+  const total = parts.reduce((n, p) => n + p.length, 0);
+  if (total === 0) throw new TTSError('empty-audio', 'nothing speakable in the text');
+
+  let peak = 0;
+  for (const part of parts) for (let i = 0; i < part.length; i++) peak = Math.max(peak, Math.abs(part[i]));
+  const scale = peak > 0 ? 0.5 / peak : 0;
+
+  const pcm = new Int16Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) pcm[pos++] = Math.round(part[i] * scale * 32767);
+  }
+  // Rendering locally is free, so the mock never goes through the audio cache
+  return { audio: encodeBase64(new Uint8Array(pcm.buffer)), cached: false };
+}
+
+async function synthesize(
+  { text, voice, speed, pitch, language, lexicon = [] }: TTSRequest,
+  signal?: AbortSignal
+): Promise<SynthesisResult> {
+  await sleep(LATENCY_MS, signal);
+  const segments = textToSegments(applyLexicon(text, lexicon, language));
+  return toResult([renderSegments(segments, voice, speed, pitch)]);
+}
+
+/**
+ * Voices each "Name: text" line with that speaker's voice, speed and pitch.
+ * Lines without a known speaker continue with the previous one.
+ */
+async function synthesizeDialogue(
+  { dialogue, speakers, speed, pitch, language, lexicon = [] }: MultiTTSRequest,
+  signal?: AbortSignal
+): Promise<SynthesisResult> {
+  await sleep(LATENCY_MS, signal);
+  const byName = new Map(speakers.map(s => [s.name.toLowerCase(), s]));
+  const gap = new Float32Array(Math.round((0.25 / speed) * SAMPLE_RATE));
+  const parts: Float32Array[] = [];
+  let speaker: SpeakerConfig = speakers[0] ?? { name: '', voice: Voice.KORE };
+
+  for (const line of applyLexicon(dialogue, lexicon, dialogueLexiconLanguage(speakers, language)).split('\n')) {
+    const match = line.match(/^\s*([^:：]+?)\s*[:：]\s*(.*)$/);
+    const lineSpeaker = match && byName.get(match[1].toLowerCase());
+    if (lineSpeaker) speaker = lineSpeaker;
+    const segments = textToSegments(lineSpeaker ? match[2] : line);
+    if (segments.length === 0) continue;
+    if (parts.length > 0) parts.push(gap);
+    parts.push(renderSegments(segments, speaker.voice, speed * (speaker.speed ?? 1), pitch + (speaker.pitch ?? 0)));
+  }
+  return toResult(parts);
+}
+
+export const mockProvider: TTSProvider = {
+  id: 'mock',
+  name: 'Offline mock',
+  capabilities: {
+    maxSpeakers: 4,
+    languages: Object.values(Language),
+    styleInstructions: false,
+    sampleRate: SAMPLE_RATE
+  },
+  listVoices: () => Object.values(Voice),
+  synthesize,
+  synthesizeDialogue
+};
@@ -0,0 +1,150 @@
+
+import { ApiError, BlockedReason, FinishReason, GenerateContentResponse } from "@google/genai";
+
+/**
+ * Typed failures for speech synthesis. Each kind carries a message that can go
+ * straight into the error banner, and whether retrying the same request could
+ * succeed.
+ */
+
+export type TTSErrorKind =
+  | 'missing-api-key'
+  | 'invalid-api-key'
+  | 'quota'
+  | 'safety'
+  | 'empty-audio'
+  | 'network'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+const MESSAGES: Record<TTSErrorKind, string> = {
+  'missing-api-key': "No Gemini API key is configured. Set GEMINI_API_KEY in .env.local and restart the app.",
+  'invalid-api-key': "The Gemini API key was rejected. Check that GEMINI_API_KEY is valid and has access to the TTS model.",
+  'quota': "The Gemini rate limit or quota was exceeded. Wait a minute and try again.",
+  'safety': "The request was blocked by Gemini's safety filters. Rephrase the text and try again.",
+  'empty-audio': "No audio was returned for this request. Try again or shorten the text.",
+  'network': "Could not reach the Gemini API. Check your internet connection.",
+  'server': "The Gemini service is temporarily unavailable. Try again shortly.",
+  'cancelled': "Generation cancelled.",
+  'unknown': "Speech synthesis failed."
+};
+
+const RETRYABLE: TTSErrorKind[] = ['quota', 'empty-audio', 'network', 'server'];
+
+export class TTSError extends Error {
+  readonly kind: TTSErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: TTSErrorKind, detail?: string, options?: { cause?: unknown }) {
+    super(detail ? `${MESSAGES[kind]} (${detail})` : MESSAGES[kind], options);
+    this.name = 'TTSError';
+    this.kind = kind;
+    this.retryable = RETRYABLE.includes(kind);
+  }
+}
+
+export function isCancelled(err: unknown): boolean {
+  return err instanceof TTSError && err.kind === 'cancelled';
+}
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.RECITATION
+];
+
+/**
+ * Pulls the base64 audio out of a response, or explains why there is none.
+ */
+export function extractAudio(response: GenerateContentResponse): string {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason && blockReason !== BlockedReason.BLOCKED_REASON_UNSPECIFIED) {
+    throw new TTSError('safety', blockReason);
+  }
+
+  const candidate = response.candidates?.[0];
+  const data = candidate?.content?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+  if (data) return data;
+
+  if (BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)) {
+    throw new TTSError('safety', candidate?.finishReason);
+  }
+  throw new TTSError('empty-audio', candidate?.finishReason);
+}
+
+/**
+ * Maps SDK, fetch and abort errors onto a TTSError.
+ */
+export function toTTSError(err: unknown): TTSError {
+  if (err instanceof TTSError) return err;
+  const cause = { cause: err };
+
+  if (err instanceof DOMException && err.name === 'AbortError') return new TTSError('cancelled', undefined, cause);
+
+  if (err instanceof ApiError) {
+    if (err.status === 429) return new TTSError('quota', undefined, cause);
+    if (err.status === 401 || err.status === 403 || /API[_ ]KEY/i.test(err.message)) {
+      return new TTSError('invalid-api-key', undefined, cause);
+    }
+    if (err.status >= 500) return new TTSError('server', `HTTP ${err.status}`, cause);
+    return new TTSError('unknown', err.message, cause);
+  }
+
+  // fetch() rejects with a TypeError when the request never reaches the server
+  if (err instanceof TypeError && /fetch|network|load failed/i.test(err.message)) {
+    return new TTSError('network', undefined, cause);
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  if (/429|RESOURCE_EXHAUSTED|quota/i.test(message)) return new TTSError('quota', undefined, cause);
+  return new TTSError('unknown', message, cause);
+}
+
+/**
+ * Resolves after `ms`, or rejects with a cancelled TTSError once `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new TTSError('cancelled'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TTSError('cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs `call`, retrying transient failures with exponential backoff. Jitter
+ * keeps parallel callers (batch rows, chunks) from retrying in lockstep.
+ * Quota errors start from a longer delay since the window is per minute.
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  { retries = 4, baseDelayMs = 1000, signal }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new TTSError('cancelled');
+    try {
+      return await call();
+    } catch (err) {
+      const error = signal?.aborted ? new TTSError('cancelled', undefined, { cause: err }) : toTTSError(err);
+      if (!error.retryable || attempt >= retries) throw error;
+      const base = error.kind === 'quota' ? baseDelayMs * 2 : baseDelayMs;
+      await sleep(base * 2 ** attempt * (0.75 + Math.random() * 0.5), signal);
+    }
+  }
+}
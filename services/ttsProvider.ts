@@ -0,0 +1,22 @@
+
+import { TTSProvider, TTSProviderId } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+const PROVIDERS: Record<TTSProviderId, TTSProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+/**
+ * Picks the backend named by TTS_PROVIDER in .env.local ("gemini" or "mock").
+ * Gemini is the default.
+ */
+function resolveProvider(id: string | undefined): TTSProvider {
+  if (!id) return geminiProvider;
+  const provider = PROVIDERS[id.trim().toLowerCase() as TTSProviderId];
+  if (!provider) console.warn(`Unknown TTS_PROVIDER "${id}", using Gemini.`);
+  return provider ?? geminiProvider;
+}
+
+export const ttsProvider: TTSProvider = resolveProvider(process.env.TTS_PROVIDER);
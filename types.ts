@@ -63,37 +63,229 @@ export enum VoiceStyle {
   PLEADING = 'Pleading'
 }
 
-export const VOICE_DETAILS: Record<Voice, { gender: 'Male' | 'Female' }> = {
-  [Voice.ACHERNAR]: { gender: 'Female' },
-  [Voice.ACHIRD]: { gender: 'Male' },
-  [Voice.ALGENIB]: { gender: 'Male' },
-  [Voice.ALGIEBA]: { gender: 'Male' },
-  [Voice.ALNILAM]: { gender: 'Male' },
-  [Voice.AOEDE]: { gender: 'Female' },
-  [Voice.AUTONOE]: { gender: 'Female' },
-  [Voice.CALLIRRHOE]: { gender: 'Female' },
-  [Voice.CHARON]: { gender: 'Male' },
-  [Voice.DESPINA]: { gender: 'Female' },
-  [Voice.ENCELADUS]: { gender: 'Male' },
-  [Voice.ERINOME]: { gender: 'Female' },
-  [Voice.FENRIR]: { gender: 'Male' },
-  [Voice.GACRUX]: { gender: 'Female' },
-  [Voice.IAPETUS]: { gender: 'Male' },
-  [Voice.KORE]: { gender: 'Female' },
-  [Voice.LAOMEDEIA]: { gender: 'Female' },
-  [Voice.LEDA]: { gender: 'Female' },
-  [Voice.ORUS]: { gender: 'Male' },
-  [Voice.PULCHERRIMA]: { gender: 'Female' },
-  [Voice.PUCK]: { gender: 'Male' },
-  [Voice.RASALGETHI]: { gender: 'Male' },
-  [Voice.SADACHBIA]: { gender: 'Male' },
-  [Voice.SADALTAGER]: { gender: 'Male' },
-  [Voice.SCHEDAR]: { gender: 'Male' },
-  [Voice.SULAFAT]: { gender: 'Female' },
-  [Voice.UMBRIEL]: { gender: 'Male' },
-  [Voice.VINDEMIATRIX]: { gender: 'Female' },
-  [Voice.ZEPHYR]: { gender: 'Female' },
-  [Voice.ZUBENELGENUBI]: { gender: 'Male' },
+export type VoicePitchRange = 'Low' | 'Mid' | 'High';
+
+export interface VoiceDetails {
+  gender: 'Male' | 'Female';
+  // Descriptors for how the voice sounds, the first being the headline
+  tone: string[];
+  pitchRange: VoicePitchRange;
+  // Every voice speaks every language; these are the ones it sounds most natural in
+  languages: Language[];
+  useCases: string[];
+}
+
+export const VOICE_DETAILS: Record<Voice, VoiceDetails> = {
+  [Voice.ACHERNAR]: {
+    gender: 'Female',
+    tone: ['Soft', 'Gentle'],
+    pitchRange: 'High',
+    languages: [Language.ENGLISH],
+    useCases: ['Meditation', 'Audiobooks', 'Bedtime stories']
+  },
+  [Voice.ACHIRD]: {
+    gender: 'Male',
+    tone: ['Friendly', 'Approachable'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Customer support', 'Explainers', 'Podcasts']
+  },
+  [Voice.ALGENIB]: {
+    gender: 'Male',
+    tone: ['Gravelly', 'Rugged'],
+    pitchRange: 'Low',
+    languages: [Language.ENGLISH],
+    useCases: ['Trailers', 'Characters', 'Documentaries']
+  },
+  [Voice.ALGIEBA]: {
+    gender: 'Male',
+    tone: ['Smooth', 'Polished'],
+    pitchRange: 'Low',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['Narration', 'Commercials', 'Luxury brands']
+  },
+  [Voice.ALNILAM]: {
+    gender: 'Male',
+    tone: ['Firm', 'Assertive'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['Announcements', 'News', 'Corporate']
+  },
+  [Voice.AOEDE]: {
+    gender: 'Female',
+    tone: ['Breezy', 'Light'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Lifestyle', 'Podcasts', 'Social media']
+  },
+  [Voice.AUTONOE]: {
+    gender: 'Female',
+    tone: ['Bright', 'Articulate'],
+    pitchRange: 'High',
+    languages: [Language.ENGLISH],
+    useCases: ['E-learning', 'Explainers', 'Presentations']
+  },
+  [Voice.CALLIRRHOE]: {
+    gender: 'Female',
+    tone: ['Easy-going', 'Relaxed'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Podcasts', 'Conversational', 'Vlogs']
+  },
+  [Voice.CHARON]: {
+    gender: 'Male',
+    tone: ['Informative', 'Measured'],
+    pitchRange: 'Low',
+    languages: [Language.ENGLISH, Language.URDU, Language.HINDI],
+    useCases: ['News', 'Documentaries', 'E-learning']
+  },
+  [Voice.DESPINA]: {
+    gender: 'Female',
+    tone: ['Smooth', 'Warm'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['Narration', 'Commercials', 'Audiobooks']
+  },
+  [Voice.ENCELADUS]: {
+    gender: 'Male',
+    tone: ['Breathy', 'Intimate'],
+    pitchRange: 'Low',
+    languages: [Language.ENGLISH],
+    useCases: ['ASMR', 'Drama', 'Characters']
+  },
+  [Voice.ERINOME]: {
+    gender: 'Female',
+    tone: ['Clear', 'Precise'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['E-learning', 'IVR', 'Announcements']
+  },
+  [Voice.FENRIR]: {
+    gender: 'Male',
+    tone: ['Excitable', 'Energetic'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['Sports', 'Gaming', 'Promos']
+  },
+  [Voice.GACRUX]: {
+    gender: 'Female',
+    tone: ['Mature', 'Grounded'],
+    pitchRange: 'Low',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['Audiobooks', 'Documentaries', 'Corporate']
+  },
+  [Voice.IAPETUS]: {
+    gender: 'Male',
+    tone: ['Clear', 'Neutral'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['E-learning', 'IVR', 'Explainers']
+  },
+  [Voice.KORE]: {
+    gender: 'Female',
+    tone: ['Firm', 'Confident'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.URDU, Language.HINDI],
+    useCases: ['Narration', 'News', 'Corporate']
+  },
+  [Voice.LAOMEDEIA]: {
+    gender: 'Female',
+    tone: ['Upbeat', 'Cheerful'],
+    pitchRange: 'High',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Commercials', 'Kids content', 'Social media']
+  },
+  [Voice.LEDA]: {
+    gender: 'Female',
+    tone: ['Youthful', 'Fresh'],
+    pitchRange: 'High',
+    languages: [Language.ENGLISH],
+    useCases: ['Kids content', 'Gaming', 'Characters']
+  },
+  [Voice.ORUS]: {
+    gender: 'Male',
+    tone: ['Firm', 'Steady'],
+    pitchRange: 'Low',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['Announcements', 'Corporate', 'Narration']
+  },
+  [Voice.PULCHERRIMA]: {
+    gender: 'Female',
+    tone: ['Forward', 'Expressive'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Drama', 'Characters', 'Promos']
+  },
+  [Voice.PUCK]: {
+    gender: 'Male',
+    tone: ['Upbeat', 'Playful'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Podcasts', 'Commercials', 'Conversational']
+  },
+  [Voice.RASALGETHI]: {
+    gender: 'Male',
+    tone: ['Informative', 'Authoritative'],
+    pitchRange: 'Low',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['Documentaries', 'News', 'E-learning']
+  },
+  [Voice.SADACHBIA]: {
+    gender: 'Male',
+    tone: ['Lively', 'Animated'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Kids content', 'Gaming', 'Promos']
+  },
+  [Voice.SADALTAGER]: {
+    gender: 'Male',
+    tone: ['Knowledgeable', 'Calm'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['E-learning', 'Explainers', 'Podcasts']
+  },
+  [Voice.SCHEDAR]: {
+    gender: 'Male',
+    tone: ['Even', 'Balanced'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['IVR', 'Corporate', 'Audiobooks']
+  },
+  [Voice.SULAFAT]: {
+    gender: 'Female',
+    tone: ['Warm', 'Caring'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.URDU, Language.HINDI],
+    useCases: ['Audiobooks', 'Healthcare', 'Conversational']
+  },
+  [Voice.UMBRIEL]: {
+    gender: 'Male',
+    tone: ['Easy-going', 'Casual'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Podcasts', 'Vlogs', 'Conversational']
+  },
+  [Voice.VINDEMIATRIX]: {
+    gender: 'Female',
+    tone: ['Gentle', 'Soothing'],
+    pitchRange: 'Mid',
+    languages: [Language.ENGLISH, Language.URDU],
+    useCases: ['Meditation', 'Healthcare', 'Audiobooks']
+  },
+  [Voice.ZEPHYR]: {
+    gender: 'Female',
+    tone: ['Bright', 'Energetic'],
+    pitchRange: 'High',
+    languages: [Language.ENGLISH, Language.HINDI],
+    useCases: ['Commercials', 'Promos', 'Social media']
+  },
+  [Voice.ZUBENELGENUBI]: {
+    gender: 'Male',
+    tone: ['Casual', 'Laid-back'],
+    pitchRange: 'Low',
+    languages: [Language.ENGLISH],
+    useCases: ['Conversational', 'Vlogs', 'Characters']
+  },
 };
 
 export const LANGUAGE_VOICE_MAP: Record<Language, Voice> = {
@@ -102,9 +294,35 @@ export const LANGUAGE_VOICE_MAP: Record<Language, Voice> = {
   [Language.HINDI]: Voice.AOEDE,
 };
 
+export const LANGUAGE_DETAILS: Record<Language, { accent: string; direction: 'ltr' | 'rtl'; locale: string }> = {
+  [Language.ENGLISH]: { accent: 'a clear, neutral English accent', direction: 'ltr', locale: 'en-US' },
+  [Language.URDU]: { accent: 'a native Pakistani Urdu accent', direction: 'rtl', locale: 'ur-PK' },
+  [Language.HINDI]: { accent: 'a native Indian Hindi accent', direction: 'ltr', locale: 'hi-IN' },
+};
+
 export interface SpeakerConfig {
   name: string;
   voice: Voice;
+  language?: Language;
+  // The voice preset this speaker was set up from, if any
+  presetId?: string;
+  // Per-speaker direction; speed multiplies and pitch adds to the global sliders
+  style?: string;
+  speed?: number;
+  pitch?: number;
+}
+
+// A named voice setup, e.g. "News Anchor" = Fenrir, Authoritative, -2 pitch, 0.9x
+export interface VoicePreset {
+  id: string;
+  name: string;
+  voice: Voice;
+  style: string;
+  pitch: number;
+  speed: number;
+  language: Language;
+  // Shipped with the app; can be duplicated but not edited or deleted
+  builtIn?: boolean;
 }
 
 export interface TTSRequest {
@@ -113,6 +331,8 @@ export interface TTSRequest {
   voice: Voice;
   pitch: number;
   speed: number;
+  language?: Language;
+  lexicon?: LexiconEntry[];
 }
 
 export interface MultiTTSRequest {
@@ -120,4 +340,173 @@ export interface MultiTTSRequest {
   speakers: SpeakerConfig[];
   pitch: number;
   speed: number;
+  // Fallback for speakers without their own language
+  language?: Language;
+  lexicon?: LexiconEntry[];
+}
+
+export type TTSProviderId = 'gemini' | 'mock';
+
+export interface TTSCapabilities {
+  // Speakers a single multi-speaker request can voice
+  maxSpeakers: number;
+  languages: Language[];
+  // Whether free-text style instructions ("Whispering", "Cheerful") are followed
+  styleInstructions: boolean;
+  sampleRate: number;
+}
+
+export interface SynthesisResult {
+  // Base64 mono 16-bit PCM at the provider's sample rate
+  audio: string;
+  // Served from the local audio cache instead of a new API call
+  cached: boolean;
+}
+
+/**
+ * A speech synthesis backend. Failures, including cancellation through
+ * `signal`, reject with a TTSError.
+ */
+export interface TTSProvider {
+  id: TTSProviderId;
+  name: string;
+  capabilities: TTSCapabilities;
+  listVoices(): Voice[];
+  synthesize(request: TTSRequest, signal?: AbortSignal): Promise<SynthesisResult>;
+  synthesizeDialogue(request: MultiTTSRequest, signal?: AbortSignal): Promise<SynthesisResult>;
+}
+
+export type ChunkStatus = 'pending' | 'rendering' | 'done' | 'error';
+
+export interface ScriptChunk {
+  text: string;
+  status: ChunkStatus;
+  error?: string;
+  cached?: boolean;
+  // Conversation segments: the speakers voiced in this chunk
+  speakers?: SpeakerConfig[];
+  // SSML overrides: a different voice, exact local prosody, or a timed pause
+  voice?: Voice;
+  prosody?: { speed: number; pitch: number };
+  silence?: number;
+}
+
+// Settings snapshotted for one generate run, so a retried chunk is rendered
+// exactly like its siblings
+export interface ChunkSettings {
+  style: string;
+  voice: Voice;
+  speed: number;
+  pitch: number;
+  mode: RenderMode;
+  gap: number;
+  lexicon: LexiconEntry[];
+  // For conversations, the fallback for speakers without their own language
+  language?: Language;
+}
+
+/**
+ * Where one source sentence (or dialogue line) sits in the output audio, in seconds.
+ */
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+  chunkIndex: number;
+}
+
+// 'prompt' asks the model for speed/pitch; 'precise' renders neutral and
+// applies the slider values with the local DSP engine.
+export type RenderMode = 'prompt' | 'precise';
+
+export interface DialogueTurn {
+  line: number; // 1-based line in the script
+  speaker: string;
+  text: string;
+  tags: string[];
+}
+
+export type DialogueIssueKind = 'unknown-speaker' | 'empty-turn' | 'no-speaker';
+
+export interface DialogueIssue {
+  line: number;
+  kind: DialogueIssueKind;
+  message: string;
+  speaker?: string;
+  suggestion?: string;
+}
+
+export interface ParsedDialogue {
+  turns: DialogueTurn[];
+  issues: DialogueIssue[];
+}
+
+// 'auto' renders the whole dialogue at once when the model can voice every
+// speaker together, and falls back to speaker groups otherwise.
+export type ConversationMode = 'auto' | 'grouped' | 'per-turn';
+
+export interface DialogueSegment {
+  text: string;
+  speakers: SpeakerConfig[];
+}
+
+export type EditorTab = 'single' | 'multi';
+
+// One clip of a batch run, as read from the imported CSV/JSON file
+export interface BatchRow {
+  id: string;
+  text: string;
+  voice: Voice;
+  style: string;
+  language: Language;
+  speed: number;
+  pitch: number;
+}
+
+export interface BatchJob {
+  row: BatchRow;
+  status: ChunkStatus;
+  error?: string;
+  attempts: number;
+  cached?: boolean;
+  audio?: Blob;
+  duration?: number; // seconds
+}
+
+// Everything needed to restore the editor to the state that produced a render
+export interface GenerationSettings {
+  tab: EditorTab;
+  script: string;
+  voice: Voice;
+  style: string;
+  language: Language;
+  pitch: number;
+  speed: number;
+  speakers: SpeakerConfig[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  createdAt: number;
+  duration: number; // seconds
+  audio: Blob;
+  settings: GenerationSettings;
+}
+
+// Pronunciation override: `term` in the script is sent to the model as `spoken`
+export interface LexiconEntry {
+  id: string;
+  term: string;
+  spoken: string;
+  language: Language;
+}
+
+export type SsmlSegment =
+  | { kind: 'speech'; text: string; voice?: Voice; speed?: number; pitch?: number }
+  | { kind: 'silence'; seconds: number };
+
+export interface SsmlError {
+  line: number;
+  message: string;
 }
@@ -0,0 +1,148 @@
+
+import { SentenceSpan } from '../types';
+import { stitchAudioBuffers } from './audioProcessing';
+
+/**
+ * Editing helpers for the waveform editor. Every operation returns a new
+ * AudioBuffer so the previous one can be kept for undo.
+ */
+
+// Short crossfade so edit points don't click
+const EDIT_CROSSFADE = 0.01;
+
+function toSample(buffer: AudioBuffer, seconds: number): number {
+  return Math.max(0, Math.min(buffer.length, Math.round(seconds * buffer.sampleRate)));
+}
+
+/**
+ * Copies the region [start, end) into a new buffer.
+ */
+export function sliceBuffer(buffer: AudioBuffer, start: number, end: number): AudioBuffer {
+  const from = toSample(buffer, start);
+  const to = Math.max(from, toSample(buffer, end));
+  const out = new AudioBuffer({
+    length: Math.max(1, to - from),
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    out.copyToChannel(buffer.getChannelData(c).slice(from, to), c);
+  }
+  return out;
+}
+
+/**
+ * Replaces the region [start, end) with another buffer (or removes it when
+ * no replacement is given), crossfading both seams.
+ */
+export function spliceRegion(
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+  replacement?: AudioBuffer
+): AudioBuffer {
+  const parts: AudioBuffer[] = [];
+  if (toSample(buffer, start) > 0) parts.push(sliceBuffer(buffer, 0, start));
+  if (replacement) parts.push(replacement);
+  if (toSample(buffer, end) < buffer.length) parts.push(sliceBuffer(buffer, end, buffer.duration));
+  if (parts.length === 0) throw new Error("Can't remove the entire clip.");
+  return stitchAudioBuffers(parts, EDIT_CROSSFADE);
+}
+
+export function cutRegion(buffer: AudioBuffer, start: number, end: number): AudioBuffer {
+  return spliceRegion(buffer, start, end);
+}
+
+export function trimToRegion(buffer: AudioBuffer, start: number, end: number): AudioBuffer {
+  return sliceBuffer(buffer, start, end);
+}
+
+/**
+ * Applies an equal-power fade over the region, in or out.
+ */
+export function fadeRegion(buffer: AudioBuffer, start: number, end: number, direction: 'in' | 'out'): AudioBuffer {
+  const from = toSample(buffer, start);
+  const to = toSample(buffer, end);
+  const length = Math.max(1, to - from);
+  const out = new AudioBuffer({
+    length: buffer.length,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate
+  });
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c).slice();
+    for (let i = from; i < to; i++) {
+      const progress = (i - from) / length;
+      data[i] *= direction === 'in' ? Math.sin(progress * Math.PI / 2) : Math.cos(progress * Math.PI / 2);
+    }
+    out.copyToChannel(data, c);
+  }
+  return out;
+}
+
+/**
+ * Moves sentence spans after the region [start, end) was replaced by audio of
+ * `newDuration` seconds. Times inside the region are scaled into the new audio;
+ * spans that collapse to almost nothing are dropped.
+ */
+export function remapSpans(spans: SentenceSpan[], start: number, end: number, newDuration: number): SentenceSpan[] {
+  const oldDuration = end - start;
+  const map = (t: number) => {
+    if (t <= start) return t;
+    if (t >= end) return t + newDuration - oldDuration;
+    return start + (oldDuration > 0 ? ((t - start) / oldDuration) * newDuration : 0);
+  };
+  return spans
+    .map(span => ({ ...span, start: map(span.start), end: map(span.end) }))
+    .filter(span => span.end - span.start > 0.05);
+}
+
+/**
+ * Scales span times, e.g. after local speed processing changed the clip length.
+ */
+export function scaleSpans(spans: SentenceSpan[], factor: number): SentenceSpan[] {
+  return spans.map(span => ({ ...span, start: span.start * factor, end: span.end * factor }));
+}
+
+/**
+ * Estimates where each sentence of a chunk starts and ends. Boundaries are first
+ * placed in proportion to sentence length, then snapped to the quietest point
+ * nearby, which is almost always the pause between sentences.
+ */
+export function alignSentences(buffer: AudioBuffer, sentences: string[]): { start: number; end: number }[] {
+  if (sentences.length === 0) return [];
+  const duration = buffer.duration;
+  if (sentences.length === 1) return [{ start: 0, end: duration }];
+
+  // RMS energy in 20ms frames on the first channel
+  const frame = Math.max(1, Math.round(0.02 * buffer.sampleRate));
+  const data = buffer.getChannelData(0);
+  const energy: number[] = [];
+  for (let i = 0; i < data.length; i += frame) {
+    let sum = 0;
+    const end = Math.min(data.length, i + frame);
+    for (let j = i; j < end; j++) sum += data[j] * data[j];
+    energy.push(sum / Math.max(1, end - i));
+  }
+
+  const totalChars = sentences.reduce((n, s) => n + s.length, 0);
+  const searchFrames = Math.round(0.6 / 0.02);
+  const boundaries = [0];
+  let chars = 0;
+  for (let k = 0; k < sentences.length - 1; k++) {
+    chars += sentences[k].length;
+    const estimate = Math.round((chars / totalChars) * energy.length);
+    const lower = Math.max(boundaries[boundaries.length - 1] + 1, estimate - searchFrames);
+    const upper = Math.min(energy.length - 1, estimate + searchFrames);
+
+    let best = Math.min(Math.max(estimate, lower), upper);
+    for (let f = lower; f <= upper; f++) {
+      if (energy[f] < energy[best]) best = f;
+    }
+    boundaries.push(best);
+  }
+
+  const times = boundaries.map(f => Math.min(duration, (f * frame) / buffer.sampleRate));
+  return times.map((start, i) => ({ start, end: i + 1 < times.length ? times[i + 1] : duration }));
+}
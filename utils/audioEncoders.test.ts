@@ -0,0 +1,57 @@
+
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './audioEncoders';
+
+// encodeWav only reads these members, so a plain object stands in for the Web Audio buffer
+function makeBuffer(length: number, numberOfChannels: number, sampleRate: number = 24000): AudioBuffer {
+  const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length).fill(0.25));
+  return { length, numberOfChannels, sampleRate, getChannelData: (c: number) => channels[c] } as unknown as AudioBuffer;
+}
+
+const tag = (view: DataView, offset: number) =>
+  String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+/**
+ * Walks the RIFF chunks, returning each chunk's id, body offset and size.
+ */
+function chunks(view: DataView): { id: string; offset: number; size: number }[] {
+  const found = [];
+  for (let offset = 12; offset < view.byteLength; ) {
+    const size = view.getUint32(offset + 4, true);
+    found.push({ id: tag(view, offset), offset: offset + 8, size });
+    offset += 8 + size + (size % 2);
+  }
+  return found;
+}
+
+describe('encodeWav', () => {
+  it('writes a 16-byte PCM fmt chunk without fact', async () => {
+    const view = new DataView(await encodeWav(makeBuffer(100, 2), 16).arrayBuffer());
+    expect(tag(view, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(chunks(view).map(c => c.id)).toEqual(['fmt ', 'LIST', 'data']);
+
+    const fmt = chunks(view)[0];
+    expect(fmt.size).toBe(16);
+    expect(view.getUint16(fmt.offset, true)).toBe(1);
+    expect(chunks(view)[2].size).toBe(100 * 2 * 2);
+  });
+
+  it('writes an 18-byte fmt chunk and a fact chunk for 32-bit float', async () => {
+    const view = new DataView(await encodeWav(makeBuffer(100, 2), 32).arrayBuffer());
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    const [fmt, fact, , data] = chunks(view);
+    expect([fmt.id, fact.id, data.id]).toEqual(['fmt ', 'fact', 'data']);
+
+    expect(fmt.size).toBe(18);
+    expect(view.getUint16(fmt.offset, true)).toBe(3);
+    expect(view.getUint16(fmt.offset + 14, true)).toBe(32);
+    expect(view.getUint16(fmt.offset + 16, true)).toBe(0);
+
+    expect(fact.size).toBe(4);
+    expect(view.getUint32(fact.offset, true)).toBe(100);
+
+    expect(data.size).toBe(100 * 2 * 4);
+    expect(view.getFloat32(data.offset, true)).toBe(0.25);
+  });
+});
@@ -0,0 +1,698 @@
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+export type ExportFormat = 'wav16' | 'wav24' | 'wav32f' | 'mp3' | 'opus' | 'flac';
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  voice?: string;
+  language?: string;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // kbps for MP3 and Opus
+  bitrate?: number;
+  // FLAC effort: higher searches more predictor partitions
+  flacLevel?: 'fast' | 'best';
+  metadata?: AudioMetadata;
+}
+
+export const FORMAT_DETAILS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  wav16: { label: 'WAV 16-bit', extension: 'wav', mimeType: 'audio/wav' },
+  wav24: { label: 'WAV 24-bit', extension: 'wav', mimeType: 'audio/wav' },
+  wav32f: { label: 'WAV 32-bit float', extension: 'wav', mimeType: 'audio/wav' },
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg' },
+  opus: { label: 'Ogg Opus', extension: 'opus', mimeType: 'audio/ogg' },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac' },
+};
+
+const ENCODER_NAME = 'AwaazAI';
+const textEncoder = new TextEncoder();
+
+/**
+ * Encodes an AudioBuffer in the requested format.
+ */
+export async function encodeAudio(buffer: AudioBuffer, options: ExportOptions): Promise<Blob> {
+  const { format, metadata = {} } = options;
+  switch (format) {
+    case 'wav16':
+      return encodeWav(buffer, 16, metadata);
+    case 'wav24':
+      return encodeWav(buffer, 24, metadata);
+    case 'wav32f':
+      return encodeWav(buffer, 32, metadata);
+    case 'mp3':
+      return encodeMp3(buffer, options.bitrate ?? 64, metadata);
+    case 'opus':
+      return encodeOpus(buffer, options.bitrate ?? 32, metadata);
+    case 'flac':
+      return encodeFlac(buffer, options.flacLevel ?? 'best', metadata);
+  }
+}
+
+/**
+ * Builds a download name from the first words of the script, keeping
+ * Urdu/Hindi letters so native-script titles stay readable.
+ */
+export function scriptFilename(script: string, extension: string): string {
+  const words = script
+    .replace(/<[^>]*>|\[[^\]]*\]/g, ' ')
+    .match(/[\p{L}\p{N}]+/gu) || [];
+  const base = words.slice(0, 6).join('_').toLowerCase().slice(0, 60);
+  return `${base || 'awaaz_ai_audio'}.${extension}`;
+}
+
+function metadataComment(metadata: AudioMetadata): string {
+  return [
+    metadata.voice && `Voice: ${metadata.voice}`,
+    metadata.language && `Language: ${metadata.language}`
+  ].filter(Boolean).join('; ');
+}
+
+function clampSample(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+/**
+ * Interleaves all channels as signed integers of the given bit depth.
+ */
+function toIntSamples(buffer: AudioBuffer, bits: 16 | 24): Int32Array[] {
+  const scale = bits === 16 ? 0x8000 : 0x800000;
+  return Array.from({ length: buffer.numberOfChannels }, (_, c) => {
+    const input = buffer.getChannelData(c);
+    const out = new Int32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const s = clampSample(input[i]);
+      out[i] = Math.round(s < 0 ? s * scale : s * (scale - 1));
+    }
+    return out;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// WAV
+// ---------------------------------------------------------------------------
+
+/**
+ * RIFF LIST/INFO chunk carrying title, artist and a voice/language comment.
+ */
+function wavInfoChunk(metadata: AudioMetadata): Uint8Array {
+  const fields: [string, string | undefined][] = [
+    ['INAM', metadata.title],
+    ['IART', metadata.artist],
+    ['ICMT', metadataComment(metadata)],
+    ['ISFT', ENCODER_NAME],
+  ];
+
+  const parts: Uint8Array[] = [];
+  for (const [id, value] of fields) {
+    if (!value) continue;
+    const text = textEncoder.encode(`${value}\0`);
+    const padded = text.length + (text.length % 2);
+    const chunk = new Uint8Array(8 + padded);
+    const view = new DataView(chunk.buffer);
+    chunk.set(textEncoder.encode(id), 0);
+    view.setUint32(4, text.length, true);
+    chunk.set(text, 8);
+    parts.push(chunk);
+  }
+
+  const body = concatBytes([textEncoder.encode('INFO'), ...parts]);
+  const list = new Uint8Array(8 + body.length);
+  list.set(textEncoder.encode('LIST'), 0);
+  new DataView(list.buffer).setUint32(4, body.length, true);
+  list.set(body, 8);
+  return list;
+}
+
+/**
+ * Encodes an AudioBuffer as 16/24-bit PCM or 32-bit float WAV.
+ */
+export function encodeWav(buffer: AudioBuffer, bitDepth: 16 | 24 | 32, metadata: AudioMetadata = {}): Blob {
+  const numChannels = buffer.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const isFloat = bitDepth === 32;
+  const dataLength = buffer.length * numChannels * bytesPerSample;
+  const info = wavInfoChunk(metadata);
+
+  // Float is a non-PCM format: its fmt chunk carries cbSize and a fact chunk must follow
+  const fmtLength = isFloat ? 18 : 16;
+  const header = new ArrayBuffer(20 + fmtLength + (isFloat ? 12 : 0));
+  const view = new DataView(header);
+  const writeTag = (target: DataView, offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) target.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(view, 0, 'RIFF');
+  view.setUint32(4, header.byteLength - 8 + info.length + 8 + dataLength, true);
+  writeTag(view, 8, 'WAVE');
+  writeTag(view, 12, 'fmt ');
+  view.setUint32(16, fmtLength, true);
+  view.setUint16(20, isFloat ? 3 : 1, true); // 3 = IEEE float, 1 = PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bitDepth, true);
+  if (isFloat) {
+    view.setUint16(36, 0, true); // cbSize: no extension
+    writeTag(view, 38, 'fact');
+    view.setUint32(42, 4, true);
+    view.setUint32(46, buffer.length, true); // samples per channel
+  }
+
+  const dataHeader = new DataView(new ArrayBuffer(8));
+  writeTag(dataHeader, 0, 'data');
+  dataHeader.setUint32(4, dataLength, true);
+
+  const data = new DataView(new ArrayBuffer(dataLength));
+  const channels = Array.from({ length: numChannels }, (_, c) => buffer.getChannelData(c));
+  let pos = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = clampSample(channels[c][i]);
+      if (isFloat) {
+        data.setFloat32(pos, sample, true);
+      } else if (bitDepth === 16) {
+        data.setInt16(pos, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+      } else {
+        const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+        data.setUint8(pos, value & 0xff);
+        data.setUint8(pos + 1, (value >> 8) & 0xff);
+        data.setUint8(pos + 2, (value >> 16) & 0xff);
+      }
+      pos += bytesPerSample;
+    }
+  }
+
+  // The INFO list sits between fmt and data so players that stop at data still find it
+  return new Blob([header, info, dataHeader.buffer, data.buffer], { type: 'audio/wav' });
+}
+
+// ---------------------------------------------------------------------------
+// MP3 (lamejs) with an ID3v2.4 tag
+// ---------------------------------------------------------------------------
+
+function syncsafe(size: number): number[] {
+  return [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f];
+}
+
+function id3Tag(metadata: AudioMetadata): Uint8Array {
+  const frame = (id: string, body: Uint8Array) => {
+    const header = new Uint8Array(10);
+    header.set(textEncoder.encode(id), 0);
+    header.set(syncsafe(body.length), 4);
+    return concatBytes([header, body]);
+  };
+  // Text frames: encoding byte 0x03 (UTF-8) followed by the value
+  const text = (id: string, value: string) => frame(id, concatBytes([new Uint8Array([3]), textEncoder.encode(value)]));
+  const userText = (description: string, value: string) =>
+    frame('TXXX', concatBytes([new Uint8Array([3]), textEncoder.encode(`${description}\0${value}`)]));
+
+  const frames: Uint8Array[] = [text('TSSE', ENCODER_NAME)];
+  if (metadata.title) frames.push(text('TIT2', metadata.title));
+  if (metadata.artist) frames.push(text('TPE1', metadata.artist));
+  if (metadata.voice) frames.push(userText('VOICE', metadata.voice));
+  if (metadata.language) frames.push(userText('LANGUAGE', metadata.language));
+
+  const body = concatBytes(frames);
+  const header = new Uint8Array(10);
+  header.set(textEncoder.encode('ID3'), 0);
+  header.set([4, 0, 0], 3); // v2.4.0, no flags
+  header.set(syncsafe(body.length), 6);
+  return concatBytes([header, body]);
+}
+
+function encodeMp3(buffer: AudioBuffer, kbps: number, metadata: AudioMetadata): Blob {
+  const numChannels = Math.min(2, buffer.numberOfChannels);
+  const encoder = new Mp3Encoder(numChannels, buffer.sampleRate, kbps);
+  const channels = toIntSamples(buffer, 16).slice(0, numChannels).map(c => Int16Array.from(c));
+  const parts: Uint8Array[] = [id3Tag(metadata)];
+
+  // lamejs expects multiples of 1152 samples per call
+  const blockSize = 1152;
+  for (let i = 0; i < buffer.length; i += blockSize) {
+    const left = channels[0].subarray(i, i + blockSize);
+    const right = numChannels > 1 ? channels[1].subarray(i, i + blockSize) : undefined;
+    const encoded = encoder.encodeBuffer(left, right);
+    if (encoded.length > 0) parts.push(new Uint8Array(encoded));
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(new Uint8Array(tail));
+
+  return new Blob(parts, { type: FORMAT_DETAILS.mp3.mimeType });
+}
+
+// ---------------------------------------------------------------------------
+// Vorbis comments (shared by FLAC and Opus)
+// ---------------------------------------------------------------------------
+
+function vorbisComments(metadata: AudioMetadata): Uint8Array {
+  const comments = [
+    metadata.title && `TITLE=${metadata.title}`,
+    metadata.artist && `ARTIST=${metadata.artist}`,
+    metadata.voice && `VOICE=${metadata.voice}`,
+    metadata.language && `LANGUAGE=${metadata.language}`,
+  ].filter((c): c is string => !!c).map(c => textEncoder.encode(c));
+
+  const vendor = textEncoder.encode(ENCODER_NAME);
+  const out = new Uint8Array(4 + vendor.length + 4 + comments.reduce((n, c) => n + 4 + c.length, 0));
+  const view = new DataView(out.buffer);
+  let pos = 0;
+
+  view.setUint32(pos, vendor.length, true);
+  out.set(vendor, pos + 4);
+  pos += 4 + vendor.length;
+  view.setUint32(pos, comments.length, true);
+  pos += 4;
+  for (const c of comments) {
+    view.setUint32(pos, c.length, true);
+    out.set(c, pos + 4);
+    pos += 4 + c.length;
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// FLAC (fixed predictors + Rice-coded residuals)
+// ---------------------------------------------------------------------------
+
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private filled = 0;
+
+  write(value: number, bits: number) {
+    for (let i = bits - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | (Math.floor(value / 2 ** i) & 1);
+      if (++this.filled === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.filled = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    for (let i = 0; i < zeros; i++) this.write(0, 1);
+    this.write(1, 1);
+  }
+
+  alignToByte() {
+    if (this.filled > 0) this.write(0, 8 - this.filled);
+  }
+
+  get length() {
+    return this.bytes.length;
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const b of bytes) {
+    crc ^= b;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const b of bytes) {
+    crc ^= b << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+const FLAC_BLOCK_SIZE = 4096;
+const FLAC_BITS_PER_SAMPLE = 16;
+
+/**
+ * Residuals of the fixed polynomial predictor of the given order (0-4).
+ */
+function fixedResiduals(samples: Int32Array, order: number): Int32Array {
+  const out = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[i - 1]; break;
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    out[i - order] = s[i] - prediction;
+  }
+  return out;
+}
+
+const zigzag = (v: number) => (v >= 0 ? 2 * v : -2 * v - 1);
+
+/**
+ * Best Rice parameter and its bit cost for a run of residuals.
+ */
+function riceCost(residuals: Int32Array, start: number, end: number): { param: number; bits: number } {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += zigzag(residuals[i]);
+  const count = Math.max(1, end - start);
+  const estimate = Math.min(14, Math.max(0, Math.floor(Math.log2(sum / count + 1))));
+
+  let best = { param: estimate, bits: Infinity };
+  for (const param of [estimate - 1, estimate, estimate + 1]) {
+    if (param < 0 || param > 14) continue;
+    let bits = 0;
+    for (let i = start; i < end; i++) bits += (zigzag(residuals[i]) >>> param) + 1 + param;
+    if (bits < best.bits) best = { param, bits };
+  }
+  return best;
+}
+
+interface ResidualPlan {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+function planResiduals(residuals: Int32Array, blockSize: number, order: number, maxPartitionOrder: number): ResidualPlan {
+  let best: ResidualPlan = { partitionOrder: 0, params: [], bits: Infinity };
+
+  for (let p = 0; p <= maxPartitionOrder; p++) {
+    const partitions = 1 << p;
+    if (blockSize % partitions !== 0 || blockSize / partitions <= order) break;
+
+    const size = blockSize / partitions;
+    const params: number[] = [];
+    let bits = 0;
+    for (let k = 0; k < partitions; k++) {
+      // The first partition is shorter by the predictor's warm-up samples
+      const start = k === 0 ? 0 : k * size - order;
+      const end = (k + 1) * size - order;
+      const cost = riceCost(residuals, start, end);
+      params.push(cost.param);
+      bits += 4 + cost.bits;
+    }
+    if (bits < best.bits) best = { partitionOrder: p, params, bits };
+  }
+  return best;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, maxPartitionOrder: number) {
+  const blockSize = samples.length;
+
+  // Pick the cheapest fixed predictor, falling back to verbatim
+  let best: { order: number; residuals: Int32Array; plan: ResidualPlan } | null = null;
+  let bestBits = blockSize * FLAC_BITS_PER_SAMPLE;
+  for (let order = 0; order <= Math.min(4, blockSize - 1); order++) {
+    const residuals = fixedResiduals(samples, order);
+    const plan = planResiduals(residuals, blockSize, order, maxPartitionOrder);
+    const bits = order * FLAC_BITS_PER_SAMPLE + 6 + plan.bits;
+    if (bits < bestBits) {
+      bestBits = bits;
+      best = { order, residuals, plan };
+    }
+  }
+
+  if (!best) {
+    writer.write(0b00000010, 8); // verbatim
+    for (const s of samples) writer.writeSigned(s, FLAC_BITS_PER_SAMPLE);
+    return;
+  }
+
+  const { order, residuals, plan } = best;
+  writer.write(0, 1);
+  writer.write(0b001000 | order, 6); // fixed predictor
+  writer.write(0, 1); // no wasted bits
+  for (let i = 0; i < order; i++) writer.writeSigned(samples[i], FLAC_BITS_PER_SAMPLE);
+
+  writer.write(0, 2); // Rice coding, 4-bit parameters
+  writer.write(plan.partitionOrder, 4);
+  const size = blockSize >> plan.partitionOrder;
+  plan.params.forEach((param, k) => {
+    const start = k === 0 ? 0 : k * size - order;
+    const end = (k + 1) * size - order;
+    writer.write(param, 4);
+    for (let i = start; i < end; i++) {
+      const folded = zigzag(residuals[i]);
+      writer.writeUnary(folded >>> param);
+      if (param > 0) writer.write(folded & ((1 << param) - 1), param);
+    }
+  });
+}
+
+/**
+ * UTF-8-style variable length integer used for FLAC frame numbers.
+ */
+function utf8Number(value: number): number[] {
+  if (value < 0x80) return [value];
+  const bytes: number[] = [];
+  let remaining = value;
+  let count = 1;
+  while (remaining >= 1 << (6 - count)) {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining >>= 6;
+    count++;
+  }
+  bytes.unshift(((0xff << (8 - count)) & 0xff) | remaining);
+  return bytes;
+}
+
+function encodeFlac(buffer: AudioBuffer, level: 'fast' | 'best', metadata: AudioMetadata): Blob {
+  const numChannels = Math.min(8, buffer.numberOfChannels);
+  const channels = toIntSamples(buffer, 16).slice(0, numChannels);
+  const maxPartitionOrder = level === 'best' ? 6 : 2;
+  const parts: Uint8Array[] = [textEncoder.encode('fLaC')];
+
+  // STREAMINFO
+  const info = new BitWriter();
+  info.write(0, 1); // not the last metadata block
+  info.write(0, 7); // STREAMINFO
+  info.write(34, 24);
+  info.write(FLAC_BLOCK_SIZE, 16);
+  info.write(FLAC_BLOCK_SIZE, 16);
+  info.write(0, 24); // min frame size unknown
+  info.write(0, 24); // max frame size unknown
+  info.write(buffer.sampleRate, 20);
+  info.write(numChannels - 1, 3);
+  info.write(FLAC_BITS_PER_SAMPLE - 1, 5);
+  info.write(buffer.length, 36);
+  for (let i = 0; i < 16; i++) info.write(0, 8); // MD5 unknown
+  parts.push(info.toBytes());
+
+  // VORBIS_COMMENT, the last metadata block
+  const comments = vorbisComments(metadata);
+  const commentHeader = new BitWriter();
+  commentHeader.write(1, 1);
+  commentHeader.write(4, 7);
+  commentHeader.write(comments.length, 24);
+  parts.push(commentHeader.toBytes(), comments);
+
+  let frameNumber = 0;
+  for (let start = 0; start < buffer.length; start += FLAC_BLOCK_SIZE) {
+    const blockSize = Math.min(FLAC_BLOCK_SIZE, buffer.length - start);
+    const frame = new BitWriter();
+
+    frame.write(0b11111111111110, 14); // sync code
+    frame.write(0, 1); // reserved
+    frame.write(0, 1); // fixed block size
+    frame.write(0b0111, 4); // block size stored as 16-bit value below
+    frame.write(0b0000, 4); // sample rate from STREAMINFO
+    frame.write(numChannels - 1, 4); // independent channels
+    frame.write(0b100, 3); // 16 bits per sample
+    frame.write(0, 1); // reserved
+    for (const b of utf8Number(frameNumber++)) frame.write(b, 8);
+    frame.write(blockSize - 1, 16);
+    frame.write(crc8(frame.toBytes()), 8);
+
+    for (const channel of channels) {
+      writeSubframe(frame, channel.subarray(start, start + blockSize), maxPartitionOrder);
+    }
+    frame.alignToByte();
+
+    const bytes = frame.toBytes();
+    const crc = crc16(bytes);
+    parts.push(bytes, new Uint8Array([crc >> 8, crc & 0xff]));
+  }
+
+  return new Blob(parts, { type: FORMAT_DETAILS.flac.mimeType });
+}
+
+// ---------------------------------------------------------------------------
+// Ogg Opus (WebCodecs encoder + a minimal Ogg muxer)
+// ---------------------------------------------------------------------------
+
+const OPUS_SAMPLE_RATE = 48000;
+const OPUS_PRE_SKIP = 312;
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const b of bytes) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ b) & 0xff]) >>> 0;
+  return crc;
+}
+
+class OggWriter {
+  private pages: Uint8Array[] = [];
+  private sequence = 0;
+  private readonly serial = Math.floor(Math.random() * 0xffffffff);
+
+  /**
+   * Writes packets that all end on this page. `granule` is the position after the last one.
+   */
+  writePage(packets: Uint8Array[], granule: number, flags: number) {
+    const lacing: number[] = [];
+    for (const p of packets) {
+      for (let n = p.length; ; n -= 255) {
+        lacing.push(Math.min(255, n));
+        if (n < 255) break;
+      }
+    }
+
+    const body = concatBytes(packets);
+    const page = new Uint8Array(27 + lacing.length + body.length);
+    const view = new DataView(page.buffer);
+    page.set(textEncoder.encode('OggS'), 0);
+    page[4] = 0; // version
+    page[5] = flags;
+    view.setUint32(6, granule % 2 ** 32, true);
+    view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+    page.set(body, 27 + lacing.length);
+    view.setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+  }
+
+  toBlob(type: string): Blob {
+    return new Blob(this.pages, { type });
+  }
+}
+
+async function resample(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const ctx = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    Math.ceil(buffer.duration * sampleRate),
+    sampleRate
+  );
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start(0);
+  return ctx.startRendering();
+}
+
+async function encodeOpus(buffer: AudioBuffer, kbps: number, metadata: AudioMetadata): Promise<Blob> {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error("This browser can't encode Opus. Try Chrome, Edge or Firefox, or export MP3 instead.");
+  }
+
+  const numChannels = Math.min(2, buffer.numberOfChannels);
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels: numChannels,
+    bitrate: kbps * 1000,
+  };
+  const support = await AudioEncoder.isConfigSupported(config);
+  if (!support.supported) throw new Error("Opus encoding is not supported in this browser.");
+
+  const input = await resample(buffer, OPUS_SAMPLE_RATE);
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let encodeError: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1e6) });
+    },
+    error: err => {
+      encodeError = err;
+    },
+  });
+  encoder.configure(config);
+
+  // Feed planar float data in 20ms frames
+  const frame = OPUS_SAMPLE_RATE / 50;
+  for (let start = 0; start < input.length; start += frame) {
+    const length = Math.min(frame, input.length - start);
+    const planar = new Float32Array(length * numChannels);
+    for (let c = 0; c < numChannels; c++) {
+      planar.set(input.getChannelData(c).subarray(start, start + length), c * length);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: length,
+      numberOfChannels: numChannels,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+
+  const ogg = new OggWriter();
+
+  // OpusHead identification header
+  const head = new Uint8Array(19);
+  const headView = new DataView(head.buffer);
+  head.set(textEncoder.encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = numChannels;
+  headView.setUint16(10, OPUS_PRE_SKIP, true);
+  headView.setUint32(12, buffer.sampleRate, true); // original input rate, informational
+  headView.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family
+  ogg.writePage([head], 0, 0x02);
+
+  // OpusTags comment header
+  ogg.writePage([concatBytes([textEncoder.encode('OpusTags'), vorbisComments(metadata)])], 0, 0);
+
+  // Audio pages of up to ~50 packets; the final granule trims encoder padding
+  const endGranule = OPUS_PRE_SKIP + input.length;
+  let granule = 0;
+  for (let i = 0; i < packets.length; i += 50) {
+    const group = packets.slice(i, i + 50);
+    granule += group.reduce((n, p) => n + p.samples, 0);
+    const isLast = i + 50 >= packets.length;
+    ogg.writePage(group.map(p => p.data), isLast ? endGranule : Math.min(granule, endGranule), isLast ? 0x04 : 0);
+  }
+
+  return ogg.toBlob(FORMAT_DETAILS.opus.mimeType);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
@@ -0,0 +1,129 @@
+
+/**
+ * Mixes a background music or sound-effect bed under the generated voice.
+ * Rendering happens in an OfflineAudioContext so the browser handles
+ * resampling the imported file to the voice's sample rate.
+ */
+
+export interface MusicBedOptions {
+  level: number;      // bed level in dB relative to full scale
+  loop: boolean;
+  fadeIn: number;     // seconds
+  fadeOut: number;    // seconds, ending at the end of the mix
+  ducking: boolean;
+  duckAmount: number; // dB of extra attenuation while someone is speaking
+  tail: number;       // seconds the bed keeps playing after the voice ends
+}
+
+export const DEFAULT_MUSIC_BED_OPTIONS: MusicBedOptions = {
+  level: -18,
+  loop: true,
+  fadeIn: 1,
+  fadeOut: 2,
+  ducking: true,
+  duckAmount: -12,
+  tail: 2
+};
+
+// Envelope follower resolution; automation curves are sampled at this rate
+const ENVELOPE_RATE = 100;
+
+/**
+ * Speech activity envelope (0 silent, 1 speaking) of the voice buffer.
+ * RMS in 10ms frames is gated against a threshold and smoothed with a fast
+ * attack so the bed ducks before the first syllable is masked, and a slow
+ * release so it doesn't pump between words.
+ */
+export function speechEnvelope(
+  voice: AudioBuffer,
+  thresholdDb: number = -40,
+  attackSeconds: number = 0.05,
+  releaseSeconds: number = 0.4
+): Float32Array {
+  const frame = Math.max(1, Math.round(voice.sampleRate / ENVELOPE_RATE));
+  const frames = Math.ceil(voice.length / frame);
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const channels = Array.from({ length: voice.numberOfChannels }, (_, c) => voice.getChannelData(c));
+
+  const active = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    const start = f * frame;
+    const end = Math.min(voice.length, start + frame);
+    for (const data of channels) {
+      for (let i = start; i < end; i++) sum += data[i] * data[i];
+    }
+    active[f] = Math.sqrt(sum / Math.max(1, (end - start) * channels.length)) > threshold ? 1 : 0;
+  }
+
+  // Look ahead by the attack time so the duck is complete when speech starts
+  const attackFrames = Math.max(1, Math.round(attackSeconds * ENVELOPE_RATE));
+  const release = 1 - Math.exp(-1 / (releaseSeconds * ENVELOPE_RATE));
+  const envelope = new Float32Array(frames);
+  let level = 0;
+  for (let f = 0; f < frames; f++) {
+    let upcoming = 0;
+    for (let k = f; k < Math.min(frames, f + attackFrames); k++) upcoming = Math.max(upcoming, active[k]);
+    level = upcoming >= level ? level + (upcoming - level) / attackFrames : level + (upcoming - level) * release;
+    envelope[f] = level;
+  }
+  return envelope;
+}
+
+/**
+ * Renders the voice with the bed underneath it and returns the mixed buffer.
+ */
+export async function mixWithMusicBed(
+  voice: AudioBuffer,
+  music: AudioBuffer,
+  options: MusicBedOptions
+): Promise<AudioBuffer> {
+  const duration = voice.duration + options.tail;
+  const ctx = new OfflineAudioContext(
+    Math.max(voice.numberOfChannels, music.numberOfChannels),
+    Math.ceil(duration * voice.sampleRate),
+    voice.sampleRate
+  );
+
+  const voiceSource = ctx.createBufferSource();
+  voiceSource.buffer = voice;
+  voiceSource.connect(ctx.destination);
+
+  const musicSource = ctx.createBufferSource();
+  musicSource.buffer = music;
+  musicSource.loop = options.loop;
+
+  // Level and fades
+  const bedGain = ctx.createGain();
+  const level = Math.pow(10, options.level / 20);
+  const fadeIn = Math.min(options.fadeIn, duration / 2);
+  const fadeOut = Math.min(options.fadeOut, duration / 2);
+  // A non-looping bed fades out at its own end if that comes first
+  const bedEnd = options.loop ? duration : Math.min(duration, music.duration);
+  bedGain.gain.setValueAtTime(fadeIn > 0 ? 0 : level, 0);
+  if (fadeIn > 0) bedGain.gain.linearRampToValueAtTime(level, fadeIn);
+  if (fadeOut > 0) {
+    bedGain.gain.setValueAtTime(level, Math.max(fadeIn, bedEnd - fadeOut));
+    bedGain.gain.linearRampToValueAtTime(0, bedEnd);
+  }
+
+  // Ducking follows the speech envelope of the voice
+  const duckGain = ctx.createGain();
+  if (options.ducking) {
+    const envelope = speechEnvelope(voice);
+    const ducked = Math.pow(10, options.duckAmount / 20);
+    const curve = envelope.map(e => 1 - (1 - ducked) * e);
+    const curveEnd = Math.max(0.01, voice.duration);
+    duckGain.gain.setValueCurveAtTime(curve.length > 1 ? curve : new Float32Array([curve[0] ?? 1, 1]), 0, curveEnd);
+    // Recover smoothly once the voice has finished
+    duckGain.gain.setTargetAtTime(1, curveEnd, 0.15);
+  }
+
+  musicSource.connect(bedGain);
+  bedGain.connect(duckGain);
+  duckGain.connect(ctx.destination);
+
+  voiceSource.start(0);
+  musicSource.start(0);
+  return ctx.startRendering();
+}
@@ -0,0 +1,163 @@
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { processAudio, timeStretch } from './audioProcessing';
+
+const SAMPLE_RATE = 24000;
+
+// Minimal stand-in for the Web Audio AudioBuffer, which Node doesn't provide
+class AudioBufferShim {
+  readonly length: number;
+  readonly numberOfChannels: number;
+  readonly sampleRate: number;
+  private channels: Float32Array[];
+
+  constructor({ length, numberOfChannels = 1, sampleRate }: AudioBufferOptions) {
+    this.length = length;
+    this.numberOfChannels = numberOfChannels;
+    this.sampleRate = sampleRate;
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number): Float32Array {
+    return this.channels[channel];
+  }
+}
+
+// Renders one buffer source at its playback rate with linear interpolation,
+// which is all processAudio asks of the OfflineAudioContext
+interface BufferSourceShim {
+  buffer: AudioBuffer | null;
+  playbackRate: { value: number };
+  connect(): void;
+  start(): void;
+}
+
+class OfflineAudioContextShim {
+  readonly destination = {};
+  private source: BufferSourceShim | null = null;
+
+  constructor(private numberOfChannels: number, private length: number, private sampleRate: number) {}
+
+  createBufferSource(): BufferSourceShim {
+    this.source = { buffer: null, playbackRate: { value: 1 }, connect() {}, start() {} };
+    return this.source;
+  }
+
+  async startRendering(): Promise<AudioBuffer> {
+    const output = new AudioBuffer({ length: this.length, numberOfChannels: this.numberOfChannels, sampleRate: this.sampleRate });
+    const input = this.source!.buffer!;
+    const rate = this.source!.playbackRate.value;
+    for (let ch = 0; ch < this.numberOfChannels; ch++) {
+      const src = input.getChannelData(ch);
+      const dst = output.getChannelData(ch);
+      for (let i = 0; i < dst.length; i++) {
+        const pos = i * rate;
+        const j = Math.floor(pos);
+        if (j + 1 >= src.length) break;
+        dst[i] = src[j] + (src[j + 1] - src[j]) * (pos - j);
+      }
+    }
+    return output;
+  }
+}
+
+beforeAll(() => {
+  globalThis.AudioBuffer = AudioBufferShim as unknown as typeof AudioBuffer;
+  globalThis.OfflineAudioContext = OfflineAudioContextShim as unknown as typeof OfflineAudioContext;
+});
+
+function makeBuffer(seconds: number, frequencyAt: (t: number) => number): AudioBuffer {
+  const buffer = new AudioBuffer({ length: Math.round(seconds * SAMPLE_RATE), numberOfChannels: 1, sampleRate: SAMPLE_RATE });
+  const data = buffer.getChannelData(0);
+  let phase = 0;
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.5 * Math.sin(phase);
+    phase += (2 * Math.PI * frequencyAt(i / SAMPLE_RATE)) / SAMPLE_RATE;
+  }
+  return buffer;
+}
+
+/**
+ * Strongest frequency (1 Hz resolution) in a Hann-windowed slice centred on
+ * `position` (0-1 through the buffer), found with the Goertzel algorithm.
+ */
+function dominantFrequency(buffer: AudioBuffer, position: number, size: number = 4096): number {
+  const data = buffer.getChannelData(0);
+  const start = Math.min(data.length - size, Math.max(0, Math.round(position * data.length - size / 2)));
+  let best = 0;
+  let bestPower = -1;
+  for (let f = 50; f <= 1000; f++) {
+    const coeff = 2 * Math.cos((2 * Math.PI * f) / buffer.sampleRate);
+    let s1 = 0;
+    let s2 = 0;
+    for (let i = 0; i < size; i++) {
+      const w = 0.5 * (1 - Math.cos((2 * Math.PI * i) / size));
+      const s = data[start + i] * w + coeff * s1 - s2;
+      s2 = s1;
+      s1 = s;
+    }
+    const power = s1 * s1 + s2 * s2 - coeff * s1 * s2;
+    if (power > bestPower) {
+      bestPower = power;
+      best = f;
+    }
+  }
+  return best;
+}
+
+describe('timeStretch', () => {
+  const sine = () => makeBuffer(1, () => 220);
+  // Linear sweep from 200 Hz to 400 Hz over the buffer
+  const chirp = () => makeBuffer(1, t => 200 + 200 * t);
+
+  it.each([0.5, 0.8, 1.25, 2])('scales the length by 1/%s', ratio => {
+    const input = sine();
+    const output = timeStretch(input, ratio, 'fast');
+    expect(output.length).toBe(Math.round(input.length / ratio));
+    expect(output.sampleRate).toBe(input.sampleRate);
+  });
+
+  it('returns the input unchanged at ratio 1', () => {
+    const input = sine();
+    expect(timeStretch(input, 1)).toBe(input);
+  });
+
+  it.each([0.75, 1.5])('keeps the pitch of a sine at ratio %s', ratio => {
+    const output = timeStretch(sine(), ratio);
+    expect(Math.abs(dominantFrequency(output, 0.5) - 220)).toBeLessThanOrEqual(3);
+  });
+
+  it.each([0.75, 1.5])('keeps the pitch of a chirp at ratio %s', ratio => {
+    const input = chirp();
+    const output = timeStretch(input, ratio);
+    // The same point in the sweep must sound at the same frequency after stretching
+    for (const position of [0.3, 0.5, 0.7]) {
+      expect(Math.abs(dominantFrequency(output, position) - dominantFrequency(input, position))).toBeLessThanOrEqual(6);
+    }
+  });
+});
+
+describe('processAudio', () => {
+  it('changes speed without changing pitch', async () => {
+    const input = makeBuffer(1, () => 300);
+    const output = await processAudio(input, 1.5, 0, 'fast');
+    expect(output.length).toBe(Math.round(input.length / 1.5));
+    expect(Math.abs(dominantFrequency(output, 0.5) - 300)).toBeLessThanOrEqual(3);
+  });
+
+  it.each([
+    [1, 12],
+    [1, -5],
+    [1.25, 4]
+  ])('at speed %s shifts the pitch by %s semitones without changing tempo', async (speed, pitch) => {
+    const input = makeBuffer(1, () => 300);
+    const output = await processAudio(input, speed, pitch, 'fast');
+    expect(Math.abs(output.length - input.length / speed)).toBeLessThanOrEqual(2);
+    const expected = 300 * Math.pow(2, pitch / 12);
+    expect(Math.abs(dominantFrequency(output, 0.5) - expected)).toBeLessThanOrEqual(expected * 0.01 + 2);
+  });
+});
@@ -12,6 +12,15 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so String.fromCharCode stays under the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 /**
  * Decodes raw PCM bytes to AudioBuffer
  */
@@ -93,15 +102,36 @@ export function audioBufferToWav(buffer: AudioBuffer): Blob {
   }
 }
 
+/**
+ * Trade-off between stretch quality and processing time.
+ * Larger search radii find better waveform alignment but cost more CPU.
+ */
+export type StretchQuality = 'fast' | 'balanced' | 'high';
+
+interface StretchSettings {
+  windowSize: number;    // analysis/synthesis frame length in samples
+  searchRadius: number;  // max alignment offset (samples) around the nominal position
+  searchStep: number;    // stride over candidate offsets
+  compareStep: number;   // stride over samples when correlating
+}
+
+// Tuned for 24 kHz speech: 1024 samples is ~42ms, enough to span a pitch period
+const STRETCH_SETTINGS: Record<StretchQuality, StretchSettings> = {
+  fast: { windowSize: 768, searchRadius: 96, searchStep: 4, compareStep: 4 },
+  balanced: { windowSize: 1024, searchRadius: 192, searchStep: 2, compareStep: 2 },
+  high: { windowSize: 1024, searchRadius: 320, searchStep: 1, compareStep: 1 },
+};
+
 /**
  * Applies speed and pitch changes to an AudioBuffer and returns a new AudioBuffer.
- * Uses an Overlap-Add (OLA) algorithm to independently control speed and pitch.
+ * Uses WSOLA time-stretching followed by resampling to independently control speed and pitch.
  * This ensures that changing the playback speed does not affect the voice's pitch.
  */
 export async function processAudio(
   buffer: AudioBuffer,
   speed: number,
-  pitch: number
+  pitch: number,
+  quality: StretchQuality = 'balanced'
 ): Promise<AudioBuffer> {
   // Target Speed S, Pitch shift P (semitones).
   // Standard Web Audio playbackRate changes both. To decouple them:
@@ -113,13 +143,14 @@ export async function processAudio(
   const pitchFactor = Math.pow(2, pitch / 12);
   const stretchRatio = speed / pitchFactor;
 
-  // 1. Time-stretch the audio using OLA (preserves pitch)
-  const stretched = timeStretch(buffer, stretchRatio);
+  // 1. Time-stretch the audio using WSOLA (preserves pitch)
+  const stretched = timeStretch(buffer, stretchRatio, quality);
+  if (Math.abs(pitchFactor - 1.0) < 0.001) return stretched;
   
   // 2. Apply the desired pitch shift using resampling in an OfflineAudioContext
   const offlineCtx = new OfflineAudioContext(
     stretched.numberOfChannels,
-    Math.max(1, Math.floor(stretched.length / pitchFactor)),
+    Math.max(1, Math.round(stretched.length / pitchFactor)),
     stretched.sampleRate
   );
 
@@ -134,59 +165,521 @@ export async function processAudio(
 }
 
 /**
- * Basic Overlap-Add (OLA) time-stretching.
+ * Waveform-Similarity Overlap-Add (WSOLA) time-stretching.
  * Ratio > 1.0 speeds up (shortens duration), Ratio < 1.0 slows down (lengthens duration).
- * This implementation uses a Hann window with 50% overlap to preserve signal continuity.
+ * Each frame is shifted within a small search window so it lines up with the natural
+ * continuation of the previous frame, which avoids the phasey, doubled sound of plain OLA.
+ * Frames run past the end of the input so the final partial window is kept.
  */
-function timeStretch(buffer: AudioBuffer, ratio: number): AudioBuffer {
+export function timeStretch(
+  buffer: AudioBuffer,
+  ratio: number,
+  quality: StretchQuality = 'balanced'
+): AudioBuffer {
   if (Math.abs(ratio - 1.0) < 0.001) return buffer;
 
+  const { windowSize, searchRadius, searchStep, compareStep } = STRETCH_SETTINGS[quality];
   const numChannels = buffer.numberOfChannels;
   const oldLength = buffer.length;
-  const newLength = Math.max(1, Math.floor(oldLength / ratio));
-  const sampleRate = buffer.sampleRate;
+  const newLength = Math.max(1, Math.round(oldLength / ratio));
 
   const outBuffer = new AudioBuffer({
     length: newLength,
     numberOfChannels: numChannels,
-    sampleRate: sampleRate
+    sampleRate: buffer.sampleRate
   });
 
-  // Windowing parameters: 1024 samples @ 24kHz is ~42ms window
-  const windowSize = 1024;
-  const hopSize = 512; // 50% overlap
-  const outHopSize = Math.floor(hopSize / ratio);
+  const synthesisHop = windowSize / 2; // 50% overlap
+  const analysisHop = synthesisHop * ratio;
 
-  // Pre-generate Hann window
+  // Periodic Hann window sums to a constant at 50% overlap
   const hann = new Float32Array(windowSize);
   for (let i = 0; i < windowSize; i++) {
-    hann[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (windowSize - 1)));
+    hann[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / windowSize));
+  }
+
+  // Alignment is computed once on a mono mix and shared by every channel
+  const inputs = Array.from({ length: numChannels }, (_, c) => buffer.getChannelData(c));
+  const mono = new Float32Array(oldLength);
+  for (const input of inputs) {
+    for (let i = 0; i < oldLength; i++) mono[i] += input[i] / numChannels;
+  }
+  const sampleAt = (data: Float32Array, idx: number) => (idx >= 0 && idx < data.length ? data[idx] : 0);
+
+  // Choose the input start position for every output frame
+  const frameCount = Math.ceil(newLength / synthesisHop) + 1;
+  const positions = new Int32Array(frameCount);
+  for (let k = 1; k < frameCount; k++) {
+    const nominal = Math.round(k * analysisHop);
+    const target = positions[k - 1] + synthesisHop; // natural continuation of the previous frame
+    positions[k] = findBestOffset(mono, target, nominal, searchRadius, searchStep, compareStep, windowSize, oldLength);
   }
 
   for (let channel = 0; channel < numChannels; channel++) {
-    const input = buffer.getChannelData(channel);
+    const input = inputs[channel];
     const output = outBuffer.getChannelData(channel);
-    
+
     // Track weight sum for OLA normalization to prevent clipping/volume artifacts
     const weights = new Float32Array(newLength);
 
-    for (let i = 0; i < newLength - windowSize; i += outHopSize) {
-      const inputIdx = Math.floor(i * ratio);
-      if (inputIdx + windowSize > oldLength) break;
+    for (let k = 0; k < frameCount; k++) {
+      const outStart = k * synthesisHop;
+      const inStart = positions[k];
 
       for (let j = 0; j < windowSize; j++) {
-        output[i + j] += input[inputIdx + j] * hann[j];
-        weights[i + j] += hann[j];
+        const outIdx = outStart + j;
+        const inIdx = inStart + j;
+        if (outIdx >= newLength) break;
+        if (inIdx < 0 || inIdx >= oldLength) continue;
+        output[outIdx] += input[inIdx] * hann[j];
+        weights[outIdx] += hann[j];
       }
     }
 
-    // Normalize overlapping windows
+    // Normalize overlapping windows; the very first samples only have the
+    // rising half of one window, so they are taken from the input directly
     for (let i = 0; i < newLength; i++) {
-      if (weights[i] > 0.01) {
-        output[i] /= weights[i];
-      }
+      if (weights[i] > 0.01) output[i] /= weights[i];
+      else if (i < synthesisHop) output[i] = sampleAt(input, i);
     }
   }
 
   return outBuffer;
 }
+
+/**
+ * Finds the input position near `nominal` whose frame best matches the frame
+ * starting at `target`, using normalized cross-correlation.
+ */
+function findBestOffset(
+  signal: Float32Array,
+  target: number,
+  nominal: number,
+  radius: number,
+  step: number,
+  compareStep: number,
+  windowSize: number,
+  length: number
+): number {
+  if (radius === 0 || nominal >= length) return nominal;
+
+  let bestPos = nominal;
+  let bestScore = -Infinity;
+
+  for (let delta = -radius; delta <= radius; delta += step) {
+    const candidate = nominal + delta;
+    if (candidate < 0) continue;
+
+    let dot = 0;
+    let energy = 0;
+    for (let j = 0; j < windowSize; j += compareStep) {
+      const a = target + j < length ? signal[target + j] : 0;
+      const b = candidate + j < length ? signal[candidate + j] : 0;
+      dot += a * b;
+      energy += b * b;
+    }
+
+    const score = energy > 1e-9 ? dot / Math.sqrt(energy) : 0;
+    if (score > bestScore) {
+      bestScore = score;
+      bestPos = candidate;
+    }
+  }
+
+  return bestPos;
+}
+
+/**
+ * Samples shared by each pair of neighbours when stitching: the crossfade,
+ * capped by half of the shorter neighbour.
+ */
+function stitchOverlaps(buffers: AudioBuffer[], crossfadeSeconds: number): number[] {
+  const fade = Math.floor(crossfadeSeconds * (buffers[0]?.sampleRate ?? 0));
+  return buffers.slice(1).map((b, i) =>
+    Math.min(fade, Math.floor(b.length / 2), Math.floor(buffers[i].length / 2))
+  );
+}
+
+/**
+ * Start time in seconds of each buffer within the result of stitchAudioBuffers.
+ */
+export function stitchOffsets(buffers: AudioBuffer[], crossfadeSeconds: number = 0.03): number[] {
+  const overlaps = stitchOverlaps(buffers, crossfadeSeconds);
+  let offset = 0;
+  return buffers.map((b, i) => {
+    const start = offset;
+    offset += b.length - (overlaps[i] ?? 0);
+    return start / b.sampleRate;
+  });
+}
+
+/**
+ * Joins several AudioBuffers into one, blending each boundary with a short
+ * equal-power crossfade so chunk seams don't click.
+ * All buffers are expected to share the same sample rate.
+ */
+export function stitchAudioBuffers(
+  buffers: AudioBuffer[],
+  crossfadeSeconds: number = 0.03
+): AudioBuffer {
+  if (buffers.length === 0) throw new Error("Nothing to stitch.");
+  if (buffers.length === 1) return buffers[0];
+
+  const sampleRate = buffers[0].sampleRate;
+  const numChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const overlaps = stitchOverlaps(buffers, crossfadeSeconds);
+  const totalLength = buffers.reduce((sum, b) => sum + b.length, 0) -
+    overlaps.reduce((sum, o) => sum + o, 0);
+
+  const out = new AudioBuffer({
+    length: Math.max(1, totalLength),
+    numberOfChannels: numChannels,
+    sampleRate
+  });
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const output = out.getChannelData(channel);
+    let offset = 0;
+
+    buffers.forEach((buffer, idx) => {
+      const input = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      const fadeIn = idx > 0 ? overlaps[idx - 1] : 0;
+      const fadeOut = idx < overlaps.length ? overlaps[idx] : 0;
+
+      for (let i = 0; i < input.length; i++) {
+        let gain = 1;
+        if (i < fadeIn) gain = Math.sin((i / fadeIn) * Math.PI / 2);
+        else if (i >= input.length - fadeOut) gain = Math.cos(((i - (input.length - fadeOut)) / fadeOut) * Math.PI / 2);
+        output[offset + i] += input[i] * gain;
+      }
+
+      offset += input.length - fadeOut;
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Creates a silent AudioBuffer, used for gaps between assembled segments.
+ */
+export function createSilence(
+  seconds: number,
+  sampleRate: number,
+  numChannels: number = 1
+): AudioBuffer {
+  return new AudioBuffer({
+    length: Math.max(1, Math.round(seconds * sampleRate)),
+    numberOfChannels: numChannels,
+    sampleRate
+  });
+}
+
+/**
+ * Loudness targets for the mastering stage. Integrated loudness follows
+ * ITU-R BS.1770 / EBU R128; peaks are held under the true-peak ceiling.
+ */
+export type LoudnessPreset = 'off' | 'podcast' | 'broadcast';
+
+export const LOUDNESS_PRESETS: Record<Exclude<LoudnessPreset, 'off'>, { label: string; targetLufs: number; truePeakDb: number }> = {
+  podcast: { label: 'Podcast (-16 LUFS)', targetLufs: -16, truePeakDb: -1 },
+  broadcast: { label: 'Broadcast (-23 LUFS)', targetLufs: -23, truePeakDb: -1 },
+};
+
+export interface MasteringOptions {
+  loudness: LoudnessPreset;
+  highPass: boolean;
+  trimSilence: boolean;
+}
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS, -Infinity for silence
+  truePeak: number;   // dBTP
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const gainToDb = (gain: number) => 20 * Math.log10(gain);
+
+interface Biquad {
+  b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+function runBiquad(input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+}
+
+/**
+ * BS.1770 K-weighting (high shelf + RLB high-pass), derived for any sample rate.
+ */
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  // Stage 1: +4 dB shelf modelling the acoustic effect of the head
+  const shelfK = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  // Stage 2: revised low-frequency B-curve high-pass
+  const hpK = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const hpQ = 0.5003270373238773;
+  const hpA0 = 1 + hpK / hpQ + hpK * hpK;
+
+  return [
+    {
+      b0: (vh + vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      b1: 2 * (shelfK * shelfK - vh) / shelfA0,
+      b2: (vh - vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      a1: 2 * (shelfK * shelfK - 1) / shelfA0,
+      a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    },
+    {
+      b0: 1, b1: -2, b2: 1,
+      a1: 2 * (hpK * hpK - 1) / hpA0,
+      a2: (1 - hpK / hpQ + hpK * hpK) / hpA0,
+    },
+  ];
+}
+
+// Windowed-sinc interpolator for 4x oversampled true-peak detection
+const OVERSAMPLE = 4;
+const INTERPOLATION_TAPS = 12;
+const INTERPOLATION_PHASES = Array.from({ length: OVERSAMPLE - 1 }, (_, p) => {
+  const frac = (p + 1) / OVERSAMPLE;
+  return Array.from({ length: INTERPOLATION_TAPS }, (_, k) => {
+    const t = k - INTERPOLATION_TAPS / 2 + 1 - frac;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 * (1 + Math.cos((Math.PI * t) / (INTERPOLATION_TAPS / 2)));
+    return sinc * window;
+  });
+});
+
+/**
+ * Per-sample peak magnitude including the inter-sample peaks that follow each sample.
+ */
+function truePeakEnvelope(input: Float32Array): Float32Array {
+  const peaks = new Float32Array(input.length);
+  const half = INTERPOLATION_TAPS / 2;
+  for (let i = 0; i < input.length; i++) {
+    let peak = Math.abs(input[i]);
+    for (const taps of INTERPOLATION_PHASES) {
+      let sum = 0;
+      for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+        const idx = i + k - half + 1;
+        if (idx >= 0 && idx < input.length) sum += input[idx] * taps[k];
+      }
+      peak = Math.max(peak, Math.abs(sum));
+    }
+    peaks[i] = peak;
+  }
+  return peaks;
+}
+
+/**
+ * Measures integrated loudness (gated, 400ms blocks with 75% overlap) and true peak.
+ */
+export function measureLoudness(buffer: AudioBuffer): LoudnessMeasurement {
+  const filters = kWeightingFilters(buffer.sampleRate);
+  const blockSize = Math.round(0.4 * buffer.sampleRate);
+  const hop = Math.round(0.1 * buffer.sampleRate);
+  const blockCount = buffer.length <= blockSize ? 1 : Math.floor((buffer.length - blockSize) / hop) + 1;
+  const blockPower = new Float64Array(blockCount);
+  let truePeak = 0;
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const input = buffer.getChannelData(c);
+    const weighted = filters.reduce((signal, f) => runBiquad(signal, f), input);
+
+    // Prefix sums of squares make every overlapping block O(1)
+    const energy = new Float64Array(weighted.length + 1);
+    for (let i = 0; i < weighted.length; i++) energy[i + 1] = energy[i] + weighted[i] * weighted[i];
+    for (let b = 0; b < blockCount; b++) {
+      const start = b * hop;
+      const end = Math.min(weighted.length, start + blockSize);
+      blockPower[b] += (energy[end] - energy[start]) / Math.max(1, end - start);
+    }
+
+    for (const peak of truePeakEnvelope(input)) truePeak = Math.max(truePeak, peak);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+
+  const absoluteGated = Array.from(blockPower).filter(p => toLufs(p) > -70);
+  if (absoluteGated.length === 0) return { integrated: -Infinity, truePeak: gainToDb(truePeak) };
+
+  const relativeGate = toLufs(mean(absoluteGated)) - 10;
+  const gated = absoluteGated.filter(p => toLufs(p) > relativeGate);
+  return { integrated: toLufs(mean(gated)), truePeak: gainToDb(truePeak) };
+}
+
+function mapChannels(buffer: AudioBuffer, length: number, fn: (input: Float32Array, channel: number) => Float32Array): AudioBuffer {
+  const out = new AudioBuffer({ length: Math.max(1, length), numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    out.copyToChannel(fn(buffer.getChannelData(c), c), c);
+  }
+  return out;
+}
+
+/**
+ * Applies a constant gain so the integrated loudness hits the target.
+ * Silent buffers are returned unchanged.
+ */
+export function normalizeLoudness(buffer: AudioBuffer, targetLufs: number): AudioBuffer {
+  const { integrated } = measureLoudness(buffer);
+  if (!isFinite(integrated)) return buffer;
+  const gain = dbToGain(targetLufs - integrated);
+  return mapChannels(buffer, buffer.length, input => input.map(s => s * gain));
+}
+
+/**
+ * Second-order Butterworth high-pass that removes rumble and DC below the voice.
+ */
+export function highPassFilter(buffer: AudioBuffer, cutoffHz: number = 80): AudioBuffer {
+  const w0 = (2 * Math.PI * cutoffHz) / buffer.sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const filter: Biquad = {
+    b0: (1 + cos) / 2 / a0,
+    b1: -(1 + cos) / a0,
+    b2: (1 + cos) / 2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0,
+  };
+  return mapChannels(buffer, buffer.length, input => runBiquad(input, filter));
+}
+
+/**
+ * Sample range that remains after removing leading and trailing silence,
+ * keeping a little padding so the first and last syllables aren't clipped.
+ */
+function speechBounds(
+  buffer: AudioBuffer,
+  thresholdDb: number,
+  paddingSeconds: number
+): { start: number; end: number } {
+  const windowSize = Math.max(1, Math.round(0.01 * buffer.sampleRate));
+  const threshold = dbToGain(thresholdDb);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  // RMS over 10ms windows, loudest channel wins
+  const isLoud = (start: number) => channels.some(data => {
+    let sum = 0;
+    const end = Math.min(data.length, start + windowSize);
+    for (let i = start; i < end; i++) sum += data[i] * data[i];
+    return Math.sqrt(sum / Math.max(1, end - start)) > threshold;
+  });
+
+  let first = 0;
+  while (first < buffer.length && !isLoud(first)) first += windowSize;
+  if (first >= buffer.length) return { start: 0, end: buffer.length };
+
+  let last = Math.floor((buffer.length - 1) / windowSize) * windowSize;
+  while (last > first && !isLoud(last)) last -= windowSize;
+
+  const padding = Math.round(paddingSeconds * buffer.sampleRate);
+  return {
+    start: Math.max(0, first - padding),
+    end: Math.min(buffer.length, last + windowSize + padding)
+  };
+}
+
+/**
+ * Removes leading and trailing silence. Fully silent buffers are returned unchanged.
+ */
+export function trimSilence(
+  buffer: AudioBuffer,
+  thresholdDb: number = -50,
+  paddingSeconds: number = 0.15
+): AudioBuffer {
+  const { start, end } = speechBounds(buffer, thresholdDb, paddingSeconds);
+  if (start === 0 && end === buffer.length) return buffer;
+  return mapChannels(buffer, end - start, input => input.slice(start, end));
+}
+
+/**
+ * Look-ahead brickwall limiter on the oversampled peak. Gain is linked across
+ * channels, reaches its minimum before each peak and recovers over the release time.
+ */
+export function limitTruePeak(
+  buffer: AudioBuffer,
+  ceilingDb: number = -1,
+  lookaheadSeconds: number = 0.005,
+  releaseSeconds: number = 0.08
+): AudioBuffer {
+  const ceiling = dbToGain(ceilingDb);
+  const length = buffer.length;
+
+  const required = new Float32Array(length).fill(1);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const peaks = truePeakEnvelope(buffer.getChannelData(c));
+    for (let i = 0; i < length; i++) {
+      if (peaks[i] > ceiling) required[i] = Math.min(required[i], ceiling / peaks[i]);
+    }
+  }
+  if (required.every(g => g === 1)) return buffer;
+
+  // Minimum over the look-ahead window (monotonic deque), then exponential release
+  const window = Math.max(1, Math.round(lookaheadSeconds * buffer.sampleRate));
+  const release = 1 - Math.exp(-1 / (releaseSeconds * buffer.sampleRate));
+  const held = new Float32Array(length);
+  const deque = new Int32Array(length + window);
+  let head = 0, tail = 0;
+  let next = 0;
+  let previous = 1;
+  for (let i = 0; i < length; i++) {
+    while (next < Math.min(length, i + window)) {
+      while (tail > head && required[deque[tail - 1]] >= required[next]) tail--;
+      deque[tail++] = next++;
+    }
+    while (deque[head] < i) head++;
+    previous = Math.min(required[deque[head]], previous + (1 - previous) * release);
+    held[i] = previous;
+  }
+
+  // Averaging the held gain over the same window smooths the attack without
+  // letting any peak through: every averaged value already covers that peak
+  const gain = new Float32Array(length);
+  // Samples before the start take the first held value so an opening peak is caught too
+  let sum = window * held[0];
+  for (let i = 0; i < length; i++) {
+    sum += held[i] - held[Math.max(0, i - window)];
+    gain[i] = sum / window;
+  }
+
+  return mapChannels(buffer, length, input => input.map((s, i) => s * gain[i]));
+}
+
+export interface MasteredAudio {
+  buffer: AudioBuffer;
+  // Seconds removed from the start by silence trimming, for keeping timings in sync
+  trimmedStart: number;
+}
+
+/**
+ * Optional speech mastering chain: high-pass, silence trim, loudness
+ * normalization and a true-peak limiter, in that order.
+ */
+export function masterAudio(buffer: AudioBuffer, options: MasteringOptions): MasteredAudio {
+  let out = buffer;
+  let trimmedStart = 0;
+  if (options.highPass) out = highPassFilter(out);
+  if (options.trimSilence) {
+    trimmedStart = speechBounds(out, -50, 0.15).start / out.sampleRate;
+    out = trimSilence(out);
+  }
+  if (options.loudness !== 'off') {
+    const { targetLufs, truePeakDb } = LOUDNESS_PRESETS[options.loudness];
+    out = limitTruePeak(normalizeLoudness(out, targetLufs), truePeakDb);
+  }
+  return { buffer: out, trimmedStart };
+}
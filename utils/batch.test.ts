@@ -0,0 +1,42 @@
+
+import { describe, expect, it } from 'vitest';
+import { runWithConcurrency } from './batch';
+
+describe('runWithConcurrency', () => {
+  it('keeps at most `limit` tasks in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+    expect(peak).toBe(2);
+  });
+
+  it('holds new starts on every worker while paused', async () => {
+    const start = Date.now();
+    const started: Record<number, number> = {};
+    await runWithConcurrency([1, 2, 3, 4], 2, async (item, pause) => {
+      started[item] = Date.now() - start;
+      // Item 2 is still running when item 1 pauses
+      await new Promise(resolve => setTimeout(resolve, item === 1 ? 5 : 20));
+      if (item === 1) pause(100);
+    });
+    expect(started[2]).toBeLessThan(50);
+    expect(started[3]).toBeGreaterThanOrEqual(90);
+    expect(started[4]).toBeGreaterThanOrEqual(90);
+  });
+
+  it('stops waiting when aborted during a pause', async () => {
+    const controller = new AbortController();
+    const done: number[] = [];
+    const run = runWithConcurrency([1, 2, 3], 1, async (item, pause) => {
+      done.push(item);
+      pause(10_000);
+    }, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+    await run;
+    expect(done).toEqual([1]);
+  });
+});
@@ -0,0 +1,142 @@
+
+import { BatchJob, BatchRow, Language, LANGUAGE_DETAILS, Voice } from '../types';
+import { sleep } from '../services/ttsErrors';
+import { parseCsv } from './lexicon';
+
+export const BATCH_COLUMNS = ['id', 'text', 'voice', 'style', 'language', 'speed', 'pitch'] as const;
+
+export interface BatchDefaults {
+  voice: Voice;
+  style: string;
+  language: Language;
+}
+
+function toVoice(value: string, fallback: Voice): Voice {
+  if (!value) return fallback;
+  const match = Object.values(Voice).find(v => v.toLowerCase() === value.toLowerCase());
+  if (!match) throw new Error(`Unknown voice "${value}".`);
+  return match;
+}
+
+// Accepts the language name or its locale / ISO code: "Urdu", "ur-PK", "ur"
+function toLanguage(value: string, fallback: Language): Language {
+  if (!value) return fallback;
+  const lower = value.toLowerCase();
+  const match = Object.values(Language).find(l => {
+    const locale = LANGUAGE_DETAILS[l].locale.toLowerCase();
+    return l.toLowerCase() === lower || locale === lower || locale.split('-')[0] === lower;
+  });
+  if (!match) throw new Error(`Unknown language "${value}".`);
+  return match;
+}
+
+function toNumber(value: string, fallback: number, min: number, max: number, field: string): number {
+  if (!value) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) throw new Error(`${field} must be between ${min} and ${max}.`);
+  return n;
+}
+
+/**
+ * Parses a batch file. JSON is an array of row objects (or { rows: [...] });
+ * CSV needs a header naming the columns, in any order. Missing optional
+ * columns fall back to the current sidebar settings. Errors name the row.
+ */
+export function parseBatchFile(content: string, defaults: BatchDefaults): BatchRow[] {
+  let records: Record<string, unknown>[];
+
+  if (/^\s*[\[{]/.test(content)) {
+    const parsed = JSON.parse(content);
+    records = Array.isArray(parsed) ? parsed : parsed.rows;
+    if (!Array.isArray(records)) throw new Error("Batch JSON must be an array of rows.");
+  } else {
+    const [header, ...rows] = parseCsv(content);
+    const columns = (header ?? []).map(h => h.trim().toLowerCase());
+    if (!columns.includes('text')) throw new Error("Batch CSV needs a header row with at least a \"text\" column.");
+    records = rows.map(fields => Object.fromEntries(columns.map((c, i) => [c, fields[i] ?? ''])));
+  }
+
+  const seen = new Set<string>();
+  return records.map((record, index) => {
+    const field = (name: string) => String(record[name] ?? '').trim();
+    const rowNumber = index + 1;
+    try {
+      const text = field('text');
+      if (!text) throw new Error("Text is empty.");
+
+      // Ids name the files in the zip, so they must be unique as file names
+      const id = field('id') || String(rowNumber).padStart(3, '0');
+      const filename = batchFilename(id).toLowerCase();
+      if (seen.has(filename)) throw new Error(`Duplicate id "${id}".`);
+      seen.add(filename);
+
+      return {
+        id,
+        text,
+        voice: toVoice(field('voice'), defaults.voice),
+        style: field('style') || defaults.style,
+        language: toLanguage(field('language'), defaults.language),
+        speed: toNumber(field('speed'), 1.0, 0.5, 2.0, 'Speed'),
+        pitch: toNumber(field('pitch'), 0, -10, 10, 'Pitch')
+      };
+    } catch (err: any) {
+      throw new Error(`Row ${rowNumber}: ${err.message}`);
+    }
+  });
+}
+
+/**
+ * Runs async tasks with at most `limit` in flight. Tasks handle their own errors.
+ * A task can call `pause(ms)`, e.g. after hitting a rate limit, to hold every
+ * worker from starting another task until the pause ends; tasks already running
+ * carry on. Once `signal` aborts, no further tasks are started.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, pause: (ms: number) => void) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  const queue = [...items];
+  let resumeAt = 0;
+  const pause = (ms: number) => {
+    resumeAt = Math.max(resumeAt, Date.now() + ms);
+  };
+
+  const workers = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const wait = resumeAt - Date.now();
+      if (wait > 0) {
+        // Rejects once `signal` aborts, which ends the loop
+        await sleep(wait, signal).catch(() => {});
+        continue;
+      }
+      await task(queue.shift()!, pause);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * File name of a row's clip inside the zip.
+ */
+export function batchFilename(id: string): string {
+  return `${id.replace(/[\\/:*?"<>|\s]+/g, '_')}.wav`;
+}
+
+export function batchManifest(jobs: BatchJob[]): string {
+  return JSON.stringify(
+    {
+      createdAt: new Date().toISOString(),
+      rows: jobs.map(({ row, status, error, duration }) => ({
+        ...row,
+        file: status === 'done' ? batchFilename(row.id) : null,
+        status,
+        error: error ?? null,
+        duration: duration ?? null
+      }))
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,177 @@
+
+import { ConversationMode, DialogueIssue, DialogueSegment, DialogueTurn, ParsedDialogue, SpeakerConfig } from '../types';
+
+// "Name: line" — the name may not contain brackets or colons and stays short
+// so sentences that merely contain a colon aren't mistaken for a speaker.
+const TURN_PATTERN = /^\s*([^:：\[\]\n]{1,40}?)\s*[:：]\s*(.*)$/;
+const TAG_PATTERN = /\[[^\]\n]+\]/g;
+
+/**
+ * Extracts inline delivery tags such as "[sigh]" from a line of dialogue.
+ */
+export function extractTags(text: string): string[] {
+  return text.match(TAG_PATTERN) || [];
+}
+
+/**
+ * Levenshtein distance, used to suggest the intended speaker for typos.
+ */
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+/**
+ * Returns the configured speaker name closest to `name`, if it is close
+ * enough to plausibly be a typo.
+ */
+export function suggestSpeaker(name: string, speakers: SpeakerConfig[]): string | undefined {
+  const lower = name.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const s of speakers) {
+    const distance = editDistance(lower, s.name.toLowerCase());
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = s.name;
+    }
+  }
+
+  const tolerance = Math.max(1, Math.floor(lower.length / 3));
+  return bestDistance <= tolerance ? best : undefined;
+}
+
+/**
+ * Parses a "Name: line" script into typed turns and validates every speaker
+ * against the configured speakers. Lines without a speaker prefix continue
+ * the previous turn.
+ */
+export function parseDialogue(script: string, speakers: SpeakerConfig[]): ParsedDialogue {
+  const turns: DialogueTurn[] = [];
+  const issues: DialogueIssue[] = [];
+  const known = new Set(speakers.map(s => s.name.trim()));
+
+  script.split('\n').forEach((raw, idx) => {
+    const line = idx + 1;
+    if (!raw.trim()) return;
+
+    const match = raw.match(TURN_PATTERN);
+    if (!match) {
+      const previous = turns[turns.length - 1];
+      if (previous) {
+        previous.text = `${previous.text} ${raw.trim()}`.trim();
+        previous.tags = extractTags(previous.text);
+      } else {
+        issues.push({ line, kind: 'no-speaker', message: 'Line has no "Name:" prefix.' });
+      }
+      return;
+    }
+
+    const speaker = match[1].trim();
+    const text = match[2].trim();
+
+    if (!known.has(speaker)) {
+      const suggestion = suggestSpeaker(speaker, speakers);
+      issues.push({
+        line,
+        kind: 'unknown-speaker',
+        speaker,
+        suggestion,
+        message: suggestion
+          ? `Unknown speaker "${speaker}". Did you mean "${suggestion}"?`
+          : `Unknown speaker "${speaker}".`
+      });
+    }
+
+    if (!text) {
+      issues.push({ line, kind: 'empty-turn', speaker, message: `"${speaker}" has nothing to say.` });
+    }
+
+    turns.push({ line, speaker, text, tags: extractTags(text) });
+  });
+
+  return { turns, issues };
+}
+
+/**
+ * Serializes turns back into the canonical "Name: line" form sent to the model.
+ */
+export function formatDialogue(turns: DialogueTurn[]): string {
+  return turns.map(t => `${t.speaker}: ${t.text}`).join('\n');
+}
+
+/**
+ * Speaker names referenced by the script that have no SpeakerConfig yet.
+ */
+export function missingSpeakers(parsed: ParsedDialogue): string[] {
+  const names = parsed.issues
+    .filter(i => i.kind === 'unknown-speaker' && i.speaker)
+    .map(i => i.speaker as string);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Splits turns into consecutive groups that each use at most `maxSpeakers`
+ * distinct speakers, preserving script order.
+ */
+export function groupTurns(turns: DialogueTurn[], maxSpeakers: number): DialogueTurn[][] {
+  const groups: DialogueTurn[][] = [];
+  let current: DialogueTurn[] = [];
+  let names = new Set<string>();
+
+  for (const turn of turns) {
+    if (!names.has(turn.speaker) && names.size >= maxSpeakers) {
+      groups.push(current);
+      current = [];
+      names = new Set();
+    }
+    current.push(turn);
+    names.add(turn.speaker);
+  }
+  if (current.length) groups.push(current);
+
+  return groups;
+}
+
+/**
+ * Plans how a dialogue is rendered: one request for the whole script, one per
+ * group of speakers the model can voice together, or one per turn.
+ * Segments with a single speaker carry only that speaker's lines, and every
+ * segment holds its own copies of the speaker configs.
+ */
+export function planDialogueSegments(
+  turns: DialogueTurn[],
+  speakers: SpeakerConfig[],
+  mode: ConversationMode,
+  maxSpeakers: number
+): DialogueSegment[] {
+  const speakerCount = new Set(turns.map(t => t.speaker)).size;
+  const groups = mode === 'per-turn'
+    ? turns.map(t => [t])
+    : mode === 'auto' && speakerCount <= maxSpeakers
+      ? [turns]
+      : groupTurns(turns, maxSpeakers);
+
+  return groups.map(group => {
+    const names = Array.from(new Set(group.map(t => t.speaker)));
+    const segmentSpeakers = names
+      .map(name => speakers.find(s => s.name === name))
+      .filter((s): s is SpeakerConfig => !!s)
+      .map(s => ({ ...s }));
+
+    return {
+      text: segmentSpeakers.length > 1 ? formatDialogue(group) : group.map(t => t.text).join('\n'),
+      speakers: segmentSpeakers
+    };
+  });
+}
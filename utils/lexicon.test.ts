@@ -0,0 +1,22 @@
+
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { parseLexiconFile } from './lexicon';
+
+describe('parseLexiconFile', () => {
+  it('reads JSON entries', () => {
+    const [entry] = parseLexiconFile(JSON.stringify([{ term: ' GIF ', spoken: 'jif', language: 'urdu' }]));
+    expect(entry).toMatchObject({ term: 'GIF', spoken: 'jif', language: Language.URDU });
+  });
+
+  it.each(['[null]', '[1]', '["GIF"]', '[[1, 2]]', '{"entries": [{"term": "a", "spoken": "b"}, null]}'])(
+    'rejects entries that are not objects: %s',
+    content => {
+      expect(() => parseLexiconFile(content)).toThrow(/^Lexicon entry \d+ must be an object/);
+    }
+  );
+
+  it('rejects JSON without an entry list', () => {
+    expect(() => parseLexiconFile('{}')).toThrow("Lexicon JSON must be an array of entries.");
+  });
+});
@@ -0,0 +1,152 @@
+
+import { Language, LexiconEntry, SpeakerConfig } from '../types';
+
+const LEXICON_STORAGE_KEY = 'awaazai.lexicon';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replaces every whole-word occurrence of a lexicon term with its spoken form.
+ * Longer terms win over shorter ones they contain, matching is case-insensitive,
+ * and inline tags like "[sigh]" are left alone. Without a language every entry
+ * applies (e.g. conversations mixing languages).
+ */
+export function applyLexicon(text: string, entries: LexiconEntry[], language?: Language): string {
+  const active = entries
+    .filter(e => e.term.trim() && (!language || e.language === language))
+    .sort((a, b) => b.term.length - a.term.length);
+  if (active.length === 0) return text;
+
+  const lookup = new Map(active.map(e => [e.term.trim().toLowerCase(), e.spoken]));
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${active.map(e => escapeRegExp(e.term.trim())).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+
+  return text
+    .split(/(\[[^\]\n]*\])/)
+    .map(part => (part.startsWith('[') ? part : part.replace(pattern, match => lookup.get(match.toLowerCase()) ?? match)))
+    .join('');
+}
+
+/**
+ * Language to filter a dialogue's lexicon by: the global one, unless some
+ * speaker talks in another language, in which case every entry applies.
+ */
+export function dialogueLexiconLanguage(speakers: SpeakerConfig[], language?: Language): Language | undefined {
+  return speakers.every(s => !s.language || s.language === language) ? language : undefined;
+}
+
+export function loadLexicon(): LexiconEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEXICON_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLexicon(entries: LexiconEntry[]): void {
+  localStorage.setItem(LEXICON_STORAGE_KEY, JSON.stringify(entries));
+}
+
+/**
+ * Adds imported entries, replacing existing ones for the same term and language.
+ */
+export function mergeLexicon(entries: LexiconEntry[], imported: LexiconEntry[]): LexiconEntry[] {
+  const key = (e: LexiconEntry) => `${e.language}:${e.term.toLowerCase()}`;
+  const importedKeys = new Set(imported.map(key));
+  return [...entries.filter(e => !importedKeys.has(key(e))), ...imported];
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function lexiconToCsv(entries: LexiconEntry[]): string {
+  const rows = entries.map(e => [e.term, e.spoken, e.language].map(csvField).join(','));
+  return ['term,spoken,language', ...rows].join('\n');
+}
+
+export function lexiconToJson(entries: LexiconEntry[]): string {
+  return JSON.stringify(entries.map(({ term, spoken, language }) => ({ term, spoken, language })), null, 2);
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+function toLanguage(value: unknown): Language {
+  const match = Object.values(Language).find(l => l.toLowerCase() === String(value ?? '').trim().toLowerCase());
+  return match ?? Language.ENGLISH;
+}
+
+/**
+ * Parses an exported lexicon. JSON is detected by content, anything else is
+ * read as CSV with an optional "term,spoken,language" header.
+ */
+export function parseLexiconFile(content: string): LexiconEntry[] {
+  let records: { term?: unknown; spoken?: unknown; language?: unknown }[];
+
+  if (/^\s*[\[{]/.test(content)) {
+    const parsed = JSON.parse(content);
+    records = Array.isArray(parsed) ? parsed : parsed?.entries;
+    if (!Array.isArray(records)) throw new Error("Lexicon JSON must be an array of entries.");
+    const invalid = records.findIndex(r => typeof r !== 'object' || r === null || Array.isArray(r));
+    if (invalid !== -1) throw new Error(`Lexicon entry ${invalid + 1} must be an object with "term" and "spoken".`);
+  } else {
+    const rows = parseCsv(content);
+    if (rows[0]?.[0]?.trim().toLowerCase() === 'term') rows.shift();
+    records = rows.map(([term, spoken, language]) => ({ term, spoken, language }));
+  }
+
+  return records
+    .filter(r => typeof r.term === 'string' && typeof r.spoken === 'string' && r.term.trim())
+    .map(r => ({
+      id: crypto.randomUUID(),
+      term: (r.term as string).trim(),
+      spoken: (r.spoken as string).trim(),
+      language: toLanguage(r.language)
+    }));
+}
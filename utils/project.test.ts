@@ -0,0 +1,39 @@
+
+import { describe, expect, it } from 'vitest';
+import { parseProject, PROJECT_FORMAT, PROJECT_VERSION, projectFilename } from './project';
+
+const file = (fields: Record<string, unknown>) => JSON.stringify({ format: PROJECT_FORMAT, ...fields });
+
+describe('parseProject', () => {
+  it('rejects files that are not projects', () => {
+    expect(() => parseProject('not json')).toThrow("This file is not valid JSON.");
+    expect(() => parseProject('null')).toThrow("This file is not an AwaazAI project.");
+    expect(() => parseProject('[]')).toThrow("This file is not an AwaazAI project.");
+    expect(() => parseProject(JSON.stringify({ format: 'other', version: 1 }))).toThrow("This file is not an AwaazAI project.");
+  });
+
+  it('requires a whole version number', () => {
+    expect(() => parseProject(file({ version: 1.5 }))).toThrow("Invalid project: version must be a whole number.");
+    expect(() => parseProject(file({ version: 0 }))).toThrow("Invalid project: version must be a number of at least 1.");
+  });
+
+  it('rejects projects from a newer version', () => {
+    expect(() => parseProject(file({ version: PROJECT_VERSION + 1 }))).toThrow("This project was saved by a newer version of AwaazAI.");
+  });
+
+  it('names a missing editor when migrating', () => {
+    expect(() => parseProject(file({ version: 1 }))).toThrow("Invalid project: editor must be an object.");
+  });
+});
+
+describe('projectFilename', () => {
+  it('keeps Latin, Urdu and Hindi names readable', () => {
+    expect(projectFilename('Episode 1: intro')).toBe('Episode_1_intro.awaaz.json');
+    expect(projectFilename('میری کہانی')).toBe('میری_کہانی.awaaz.json');
+    expect(projectFilename('हिंदी कहानी')).toBe('हिंदी_कहानी.awaaz.json');
+  });
+
+  it('falls back when the name is empty', () => {
+    expect(projectFilename('  ')).toBe('awaaz_ai_project.awaaz.json');
+  });
+});
@@ -0,0 +1,324 @@
+
+import {
+  ChunkSettings,
+  ConversationMode,
+  EditorTab,
+  GenerationSettings,
+  Language,
+  LexiconEntry,
+  RenderMode,
+  ScriptChunk,
+  SentenceSpan,
+  SpeakerConfig,
+  Voice
+} from '../types';
+import { audioBufferToWav, decodeBase64, encodeBase64, LoudnessPreset, MasteringOptions, StretchQuality } from './audioProcessing';
+import { MusicBedOptions } from './audioMixing';
+
+/**
+ * The "AwaazAI project" file: everything needed to reopen a production on
+ * another machine. Files carry a format tag and a version; older versions are
+ * upgraded step by step through MIGRATIONS before being validated.
+ */
+
+export const PROJECT_FORMAT = 'awaazai-project';
+export const PROJECT_VERSION = 2;
+
+const AUTOSAVE_STORAGE_KEY = 'awaazai.project.autosave';
+
+export interface ProjectEditorState {
+  tab: EditorTab;
+  script: string;
+  multiScript: string;
+  language: Language;
+  voice: Voice;
+  style: string;
+  pitch: number;
+  speed: number;
+  speakers: SpeakerConfig[];
+  conversationMode: ConversationMode;
+  turnGap: number;
+  exactSpeakerProsody: boolean;
+  renderMode: RenderMode;
+  stretchQuality: StretchQuality;
+  transliterationEnabled: boolean;
+  mastering: MasteringOptions;
+  musicOptions: MusicBedOptions;
+}
+
+// A chunk of the last run with its per-segment overrides, without run status
+export type ProjectSegment = Omit<ScriptChunk, 'status' | 'error' | 'cached'>;
+
+/**
+ * The last render, embedded so the project opens with its audio and can still
+ * regenerate single sentences.
+ */
+export interface ProjectRender {
+  // Unmastered output, edits included, as base64 16-bit WAV
+  wav: string;
+  spans: SentenceSpan[];
+  segments: ProjectSegment[];
+  chunkSettings: ChunkSettings;
+  settings: GenerationSettings;
+}
+
+export interface AwaazProject {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string;
+  editor: ProjectEditorState;
+  lexicon: LexiconEntry[];
+  render?: ProjectRender;
+}
+
+/**
+ * Upgrades a project from the keyed version to the next one.
+ */
+const MIGRATIONS: Record<number, (project: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2: per-speaker style, speed and pitch, optionally applied locally
+  1: project => ({ ...project, editor: { ...record(project.editor, 'editor'), exactSpeakerProsody: false } })
+};
+
+// --- Validation ---
+
+function fail(path: string, expected: string): never {
+  throw new Error(`Invalid project: ${path} must be ${expected}.`);
+}
+
+function record(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(path, 'an object');
+  return value as Record<string, unknown>;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') fail(path, 'a string');
+  return value;
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') fail(path, 'true or false');
+  return value;
+}
+
+function number(value: unknown, path: string, min: number = -Infinity, max: number = Infinity): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    const range = Number.isFinite(max) ? ` between ${min} and ${max}` : Number.isFinite(min) ? ` of at least ${min}` : '';
+    fail(path, `a number${range}`);
+  }
+  return value;
+}
+
+function oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+  if (!options.includes(value as T)) fail(path, `one of ${options.join(', ')}`);
+  return value as T;
+}
+
+function list<T>(value: unknown, path: string, item: (value: unknown, path: string) => T): T[] {
+  if (!Array.isArray(value)) fail(path, 'a list');
+  return value.map((v, i) => item(v, `${path}[${i}]`));
+}
+
+function optional<T>(value: unknown, path: string, item: (value: unknown, path: string) => T): T | undefined {
+  return value === undefined || value === null ? undefined : item(value, path);
+}
+
+function voice(value: unknown, path: string): Voice {
+  if (!Object.values(Voice).includes(value as Voice)) fail(path, 'a known voice name');
+  return value as Voice;
+}
+
+const language = (value: unknown, path: string) => oneOf(value, path, Object.values(Language));
+
+function speaker(value: unknown, path: string): SpeakerConfig {
+  const v = record(value, path);
+  return {
+    name: string(v.name, `${path}.name`),
+    voice: voice(v.voice, `${path}.voice`),
+    language: optional(v.language, `${path}.language`, language),
+    presetId: optional(v.presetId, `${path}.presetId`, string),
+    style: optional(v.style, `${path}.style`, string),
+    speed: optional(v.speed, `${path}.speed`, (s, p) => number(s, p, 0.5, 2)),
+    pitch: optional(v.pitch, `${path}.pitch`, (s, p) => number(s, p, -10, 10))
+  };
+}
+
+function lexiconEntry(value: unknown, path: string): LexiconEntry {
+  const v = record(value, path);
+  return {
+    id: string(v.id, `${path}.id`),
+    term: string(v.term, `${path}.term`),
+    spoken: string(v.spoken, `${path}.spoken`),
+    language: language(v.language, `${path}.language`)
+  };
+}
+
+function editorState(value: unknown, path: string): ProjectEditorState {
+  const v = record(value, path);
+  const mastering = record(v.mastering, `${path}.mastering`);
+  const music = record(v.musicOptions, `${path}.musicOptions`);
+  return {
+    tab: oneOf(v.tab, `${path}.tab`, ['single', 'multi'] as const),
+    script: string(v.script, `${path}.script`),
+    multiScript: string(v.multiScript, `${path}.multiScript`),
+    language: language(v.language, `${path}.language`),
+    voice: voice(v.voice, `${path}.voice`),
+    style: string(v.style, `${path}.style`),
+    pitch: number(v.pitch, `${path}.pitch`, -10, 10),
+    speed: number(v.speed, `${path}.speed`, 0.5, 2),
+    speakers: list(v.speakers, `${path}.speakers`, speaker),
+    conversationMode: oneOf(v.conversationMode, `${path}.conversationMode`, ['auto', 'grouped', 'per-turn'] as const),
+    turnGap: number(v.turnGap, `${path}.turnGap`, 0, 2),
+    exactSpeakerProsody: boolean(v.exactSpeakerProsody, `${path}.exactSpeakerProsody`),
+    renderMode: oneOf(v.renderMode, `${path}.renderMode`, ['prompt', 'precise'] as const),
+    stretchQuality: oneOf(v.stretchQuality, `${path}.stretchQuality`, ['fast', 'balanced', 'high'] as const),
+    transliterationEnabled: boolean(v.transliterationEnabled, `${path}.transliterationEnabled`),
+    mastering: {
+      loudness: oneOf<LoudnessPreset>(mastering.loudness, `${path}.mastering.loudness`, ['off', 'podcast', 'broadcast']),
+      highPass: boolean(mastering.highPass, `${path}.mastering.highPass`),
+      trimSilence: boolean(mastering.trimSilence, `${path}.mastering.trimSilence`)
+    },
+    musicOptions: {
+      level: number(music.level, `${path}.musicOptions.level`),
+      loop: boolean(music.loop, `${path}.musicOptions.loop`),
+      fadeIn: number(music.fadeIn, `${path}.musicOptions.fadeIn`, 0, 60),
+      fadeOut: number(music.fadeOut, `${path}.musicOptions.fadeOut`, 0, 60),
+      ducking: boolean(music.ducking, `${path}.musicOptions.ducking`),
+      duckAmount: number(music.duckAmount, `${path}.musicOptions.duckAmount`),
+      tail: number(music.tail, `${path}.musicOptions.tail`, 0, 60)
+    }
+  };
+}
+
+function segment(value: unknown, path: string): ProjectSegment {
+  const v = record(value, path);
+  const prosody = optional(v.prosody, `${path}.prosody`, record);
+  return {
+    text: string(v.text, `${path}.text`),
+    speakers: optional(v.speakers, `${path}.speakers`, (s, p) => list(s, p, speaker)),
+    voice: optional(v.voice, `${path}.voice`, voice),
+    prosody: prosody && {
+      speed: number(prosody.speed, `${path}.prosody.speed`, 0),
+      pitch: number(prosody.pitch, `${path}.prosody.pitch`)
+    },
+    silence: optional(v.silence, `${path}.silence`, (s, p) => number(s, p, 0))
+  };
+}
+
+function span(value: unknown, path: string): SentenceSpan {
+  const v = record(value, path);
+  return {
+    text: string(v.text, `${path}.text`),
+    start: number(v.start, `${path}.start`, 0),
+    end: number(v.end, `${path}.end`, 0),
+    chunkIndex: number(v.chunkIndex, `${path}.chunkIndex`, 0)
+  };
+}
+
+function render(value: unknown, path: string): ProjectRender {
+  const v = record(value, path);
+  const chunk = record(v.chunkSettings, `${path}.chunkSettings`);
+  const settings = record(v.settings, `${path}.settings`);
+  return {
+    wav: string(v.wav, `${path}.wav`),
+    spans: list(v.spans, `${path}.spans`, span),
+    segments: list(v.segments, `${path}.segments`, segment),
+    chunkSettings: {
+      style: string(chunk.style, `${path}.chunkSettings.style`),
+      voice: voice(chunk.voice, `${path}.chunkSettings.voice`),
+      speed: number(chunk.speed, `${path}.chunkSettings.speed`, 0.5, 2),
+      pitch: number(chunk.pitch, `${path}.chunkSettings.pitch`, -10, 10),
+      mode: oneOf(chunk.mode, `${path}.chunkSettings.mode`, ['prompt', 'precise'] as const),
+      gap: number(chunk.gap, `${path}.chunkSettings.gap`, 0, 2),
+      lexicon: list(chunk.lexicon, `${path}.chunkSettings.lexicon`, lexiconEntry),
+      language: optional(chunk.language, `${path}.chunkSettings.language`, language)
+    },
+    settings: {
+      tab: oneOf(settings.tab, `${path}.settings.tab`, ['single', 'multi'] as const),
+      script: string(settings.script, `${path}.settings.script`),
+      voice: voice(settings.voice, `${path}.settings.voice`),
+      style: string(settings.style, `${path}.settings.style`),
+      language: language(settings.language, `${path}.settings.language`),
+      pitch: number(settings.pitch, `${path}.settings.pitch`, -10, 10),
+      speed: number(settings.speed, `${path}.settings.speed`, 0.5, 2),
+      speakers: list(settings.speakers, `${path}.settings.speakers`, speaker)
+    }
+  };
+}
+
+// --- Reading and writing ---
+
+/**
+ * Parses, migrates and validates a project file. Errors name the offending
+ * field, e.g. "Invalid project: editor.speakers[1].voice must be a known voice name".
+ */
+export function parseProject(content: string): AwaazProject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (typeof parsed !== 'object' || parsed === null || (parsed as Record<string, unknown>).format !== PROJECT_FORMAT) {
+    throw new Error("This file is not an AwaazAI project.");
+  }
+  let raw = parsed as Record<string, unknown>;
+
+  let version = number(raw.version, 'version', 1);
+  if (!Number.isInteger(version)) fail('version', 'a whole number');
+  if (version > PROJECT_VERSION) throw new Error("This project was saved by a newer version of AwaazAI.");
+  while (version < PROJECT_VERSION) {
+    raw = MIGRATIONS[version](raw);
+    version++;
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: string(raw.name, 'name'),
+    savedAt: string(raw.savedAt, 'savedAt'),
+    editor: editorState(raw.editor, 'editor'),
+    lexicon: list(raw.lexicon, 'lexicon', lexiconEntry),
+    render: optional(raw.render, 'render', render)
+  };
+}
+
+export function serializeProject(project: AwaazProject): string {
+  return JSON.stringify(project, null, 2);
+}
+
+// Keeps letters in any script, with their combining marks (Hindi vowel signs)
+export function projectFilename(name: string): string {
+  return `${name.trim().replace(/[^\p{L}\p{M}\p{N}_-]+/gu, '_') || 'awaaz_ai_project'}.awaaz.json`;
+}
+
+export async function encodeProjectAudio(buffer: AudioBuffer): Promise<string> {
+  return encodeBase64(new Uint8Array(await audioBufferToWav(buffer).arrayBuffer()));
+}
+
+export function decodeProjectAudio(wav: string, ctx: AudioContext): Promise<AudioBuffer> {
+  return ctx.decodeAudioData(decodeBase64(wav).buffer as ArrayBuffer);
+}
+
+/**
+ * The autosave keeps the editor only; embedded audio would quickly outgrow
+ * localStorage.
+ */
+export function autosaveProject(project: AwaazProject): void {
+  try {
+    localStorage.setItem(AUTOSAVE_STORAGE_KEY, serializeProject({ ...project, render: undefined }));
+  } catch (err) {
+    console.warn("Project autosave failed", err);
+  }
+}
+
+export function loadAutosavedProject(): AwaazProject | null {
+  const saved = localStorage.getItem(AUTOSAVE_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return parseProject(saved);
+  } catch (err) {
+    console.warn("Ignoring unreadable autosave", err);
+    return null;
+  }
+}
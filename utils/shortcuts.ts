@@ -0,0 +1,103 @@
+
+const SHORTCUTS_STORAGE_KEY = 'awaazai.shortcuts';
+
+export type ShortcutAction =
+  | 'generate'
+  | 'cancel'
+  | 'togglePlayback'
+  | 'previewVoice'
+  | 'singleTab'
+  | 'multiTab'
+  | 'batchTab'
+  | 'insertTag'
+  | 'commandPalette'
+  | 'showShortcuts';
+
+// Action -> key combination, e.g. "Mod+Enter" or "Alt+Shift+P"
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  generate: 'Generate audio',
+  cancel: 'Cancel generation',
+  togglePlayback: 'Play / pause output',
+  previewVoice: 'Preview selected voice',
+  singleTab: 'Single Speaker tab',
+  multiTab: 'Conversation tab',
+  batchTab: 'Batch tab',
+  insertTag: 'Insert next tag',
+  commandPalette: 'Command palette',
+  showShortcuts: 'Keyboard shortcuts'
+};
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  generate: 'Mod+Enter',
+  cancel: 'Escape',
+  togglePlayback: 'Alt+P',
+  previewVoice: 'Alt+V',
+  singleTab: 'Alt+1',
+  multiTab: 'Alt+2',
+  batchTab: 'Alt+3',
+  insertTag: 'Alt+T',
+  commandPalette: 'Mod+K',
+  showShortcuts: 'Mod+/'
+};
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+/**
+ * Normalizes a keydown into a combination like "Mod+Shift+K", where Mod is Cmd
+ * on macOS and Ctrl elsewhere. Letters and digits are read from the physical
+ * key, since Alt changes `key` to a symbol on macOS. Returns null while only
+ * modifiers are held.
+ */
+export function comboFromEvent(
+  e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): string | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+
+  const code = /^(Key[A-Z]|Digit\d)$/.test(e.code) ? e.code.slice(-1) : null;
+  const key = code ?? (e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  const parts = [
+    (IS_MAC ? e.metaKey : e.ctrlKey) && 'Mod',
+    (IS_MAC ? e.ctrlKey : e.metaKey) && 'Meta',
+    e.altKey && 'Alt',
+    e.shiftKey && 'Shift',
+    key
+  ];
+  return parts.filter(Boolean).join('+');
+}
+
+export function formatCombo(combo: string): string {
+  return combo
+    .split('+')
+    .map(part => (part === 'Mod' ? (IS_MAC ? '⌘' : 'Ctrl') : part === 'Alt' && IS_MAC ? '⌥' : part))
+    .join(IS_MAC ? '' : '+');
+}
+
+// Combinations without Mod or Alt are ignored inside text fields, where they are just typing
+export function worksWhileTyping(combo: string): boolean {
+  return /^(Mod|Meta|Alt)\+/.test(combo) || /^(Escape|F\d{1,2})$/.test(combo);
+}
+
+export function findShortcut(shortcuts: ShortcutMap, combo: string): ShortcutAction | undefined {
+  return (Object.keys(shortcuts) as ShortcutAction[]).find(action => shortcuts[action] === combo);
+}
+
+export function loadShortcuts(): ShortcutMap {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SHORTCUTS_STORAGE_KEY) || '{}');
+    const shortcuts = { ...DEFAULT_SHORTCUTS };
+    for (const action of Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]) {
+      if (typeof saved?.[action] === 'string') shortcuts[action] = saved[action];
+    }
+    return shortcuts;
+  } catch {
+    return { ...DEFAULT_SHORTCUTS };
+  }
+}
+
+export function saveShortcuts(shortcuts: ShortcutMap): void {
+  localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(shortcuts));
+}
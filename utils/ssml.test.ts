@@ -0,0 +1,39 @@
+
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { parseSsml } from './ssml';
+
+const compile = (source: string) => parseSsml(source, Language.ENGLISH).segments;
+
+describe('parseSsml', () => {
+  it('ends emphasis where the element ends', () => {
+    expect(compile('<speak>I <emphasis level="strong">really</emphasis> mean it.</speak>')).toEqual([
+      { kind: 'speech', text: 'I [emphatically] really [normal emphasis] mean it.' }
+    ]);
+  });
+
+  it('ends named rate and pitch where the element ends', () => {
+    expect(compile('<prosody rate="slow" pitch="high">Careful</prosody> now.')).toEqual([
+      { kind: 'speech', text: '[slowly] [high pitch] Careful [normal pace] [normal pitch] now.' }
+    ]);
+  });
+
+  it('restates the enclosing direction after a nested one ends', () => {
+    const [segment] = compile('<prosody rate="slow">One <emphasis>two</emphasis> three</prosody>');
+    expect(segment).toEqual({ kind: 'speech', text: '[slowly] One [with emphasis] two [normal emphasis] [slowly] three' });
+  });
+
+  it('writes no closing direction when nothing follows', () => {
+    expect(compile('Hello <emphasis>there</emphasis>')).toEqual([
+      { kind: 'speech', text: 'Hello [with emphasis] there' }
+    ]);
+  });
+
+  it('splits numeric prosody into its own segment', () => {
+    expect(compile('Normal <prosody rate="150%">fast</prosody> normal')).toEqual([
+      { kind: 'speech', text: 'Normal' },
+      { kind: 'speech', text: 'fast', speed: 1.5 },
+      { kind: 'speech', text: 'normal' }
+    ]);
+  });
+});
@@ -0,0 +1,400 @@
+
+import { Language, LANGUAGE_DETAILS, SsmlError, SsmlSegment, Voice } from '../types';
+
+/**
+ * A small SSML subset compiled down to what Gemini TTS understands.
+ * Anything expressible in natural language becomes an inline bracket direction
+ * like the editor's tag palette ("[slowly]", "[long pause]"). Attributes that
+ * need exact values (timed breaks, numeric rate/pitch, a different voice) split
+ * the script into separately rendered segments instead.
+ */
+
+interface SsmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: SsmlNode[];
+  line: number;
+}
+
+type SsmlNode = SsmlElement | string;
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  'speak': [],
+  'break': ['time', 'strength'],
+  'prosody': ['rate', 'pitch'],
+  'emphasis': ['level'],
+  'say-as': ['interpret-as', 'format'],
+  'voice': ['name'],
+};
+
+const SELF_CLOSING = new Set(['break']);
+
+const BREAK_STRENGTHS: Record<string, string> = {
+  'none': '',
+  'x-weak': '[short pause]',
+  'weak': '[short pause]',
+  'medium': '[medium pause]',
+  'strong': '[long pause]',
+  'x-strong': '[long pause]',
+};
+
+const NAMED_RATES: Record<string, string> = {
+  'x-slow': '[very slowly]',
+  'slow': '[slowly]',
+  'medium': '',
+  'fast': '[quickly]',
+  'x-fast': '[very quickly]',
+};
+
+const NAMED_PITCHES: Record<string, string> = {
+  'x-low': '[very low pitch]',
+  'low': '[low pitch]',
+  'medium': '',
+  'high': '[high pitch]',
+  'x-high': '[very high pitch]',
+};
+
+const EMPHASIS_LEVELS: Record<string, string> = {
+  'strong': '[emphatically]',
+  'moderate': '[with emphasis]',
+  'reduced': '[softly]',
+};
+
+// Written where a named rate, pitch or emphasis ends, so it covers only the wrapped text
+const RESET_RATE = '[normal pace]';
+const RESET_PITCH = '[normal pitch]';
+const RESET_EMPHASIS = '[normal emphasis]';
+
+const SAY_AS_TYPES = ['characters', 'date', 'number'];
+const DATE_FORMATS = ['ymd', 'dmy', 'mdy'];
+
+// Same limits as the Pitch and Speed sliders
+const MIN_RATE = 0.5;
+const MAX_RATE = 2.0;
+const MAX_SEMITONES = 10;
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[\w-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Cheap check used to decide whether a script should go through the SSML path.
+ */
+export function containsSsml(text: string): boolean {
+  return /<\/?(speak|break|prosody|emphasis|say-as|voice)\b/i.test(text);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Parses "500ms" / "1.5s" into seconds.
+ */
+function parseTime(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  return match[2].toLowerCase() === 'ms' ? amount / 1000 : amount;
+}
+
+/**
+ * Parses a numeric rate ("120%", "1.2") into a speed multiplier.
+ */
+function parseRate(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(%?)$/);
+  if (!match) return null;
+  return match[2] ? parseFloat(match[1]) / 100 : parseFloat(match[1]);
+}
+
+/**
+ * Parses a relative pitch ("+2st", "-3st", "+10%") into semitones.
+ */
+function parsePitch(value: string): number | null {
+  const match = value.trim().match(/^([+-]?\d+(?:\.\d+)?)(st|%)$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  return match[2] === 'st' ? amount : 12 * Math.log2(1 + amount / 100);
+}
+
+function findVoice(name: string): Voice | undefined {
+  return Object.values(Voice).find(v => v.toLowerCase() === name.trim().toLowerCase());
+}
+
+/**
+ * Checks one element's attributes, returning human-readable problems.
+ */
+function validateElement(el: SsmlElement): string[] {
+  const problems: string[] = [];
+  const allowed = ALLOWED_ATTRIBUTES[el.name];
+
+  for (const attr of Object.keys(el.attrs)) {
+    if (!allowed.includes(attr)) problems.push(`<${el.name}> does not support the "${attr}" attribute.`);
+  }
+
+  const { time, strength, rate, pitch, level, name } = el.attrs;
+  switch (el.name) {
+    case 'break':
+      if (time !== undefined) {
+        const seconds = parseTime(time);
+        if (seconds === null) problems.push(`Invalid break time "${time}". Use values like "500ms" or "1.5s".`);
+        else if (seconds > 10) problems.push(`Break time "${time}" is longer than 10s.`);
+      }
+      if (strength !== undefined && !(strength in BREAK_STRENGTHS)) {
+        problems.push(`Invalid break strength "${strength}".`);
+      }
+      break;
+    case 'prosody':
+      if (rate === undefined && pitch === undefined) problems.push('<prosody> needs a rate or pitch.');
+      if (rate !== undefined && !(rate in NAMED_RATES)) {
+        const value = parseRate(rate);
+        if (value === null) problems.push(`Invalid prosody rate "${rate}".`);
+        else if (value < MIN_RATE || value > MAX_RATE) problems.push(`Prosody rate "${rate}" must be between ${MIN_RATE * 100}% and ${MAX_RATE * 100}%.`);
+      }
+      if (pitch !== undefined && !(pitch in NAMED_PITCHES)) {
+        const value = parsePitch(pitch);
+        if (value === null) problems.push(`Invalid prosody pitch "${pitch}". Use values like "+2st" or "-10%".`);
+        else if (Math.abs(value) > MAX_SEMITONES) problems.push(`Prosody pitch "${pitch}" exceeds ±${MAX_SEMITONES} semitones.`);
+      }
+      break;
+    case 'emphasis':
+      if (level !== undefined && !(level in EMPHASIS_LEVELS)) problems.push(`Invalid emphasis level "${level}".`);
+      break;
+    case 'say-as': {
+      const interpretAs = el.attrs['interpret-as'];
+      if (!interpretAs) problems.push('<say-as> needs an interpret-as attribute.');
+      else if (!SAY_AS_TYPES.includes(interpretAs)) {
+        problems.push(`Unsupported interpret-as "${interpretAs}". Use ${SAY_AS_TYPES.join(', ')}.`);
+      }
+      const format = el.attrs.format;
+      if (format !== undefined && !DATE_FORMATS.includes(format)) problems.push(`Invalid date format "${format}".`);
+      if (el.children.some(c => typeof c !== 'string')) problems.push('<say-as> may only contain text.');
+      break;
+    }
+    case 'voice':
+      if (!name) problems.push('<voice> needs a name attribute.');
+      else if (!findVoice(name)) problems.push(`Unknown voice "${name}".`);
+      break;
+  }
+
+  return problems;
+}
+
+/**
+ * Builds the element tree, reporting unknown, mismatched and unclosed tags.
+ */
+function parseTree(source: string, errors: SsmlError[]): SsmlNode[] {
+  const root: SsmlElement = { name: 'speak', attrs: {}, children: [], line: 1 };
+  const stack: SsmlElement[] = [root];
+  let cursor = 0;
+
+  const pushText = (text: string, offset: number) => {
+    if (!text) return;
+    if (/<[a-zA-Z/]/.test(text)) {
+      errors.push({ line: lineAt(source, offset + text.search(/<[a-zA-Z/]/)), message: 'Malformed tag.' });
+    }
+    stack[stack.length - 1].children.push(decodeEntities(text));
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const offset = match.index ?? 0;
+    pushText(source.slice(cursor, offset), cursor);
+    cursor = offset + match[0].length;
+
+    const [, closing, rawName, rawAttrs, selfClosing] = match;
+    const name = rawName.toLowerCase();
+    const line = lineAt(source, offset);
+
+    if (!(name in ALLOWED_ATTRIBUTES)) {
+      errors.push({ line, message: `Unsupported tag <${rawName}>.` });
+      continue;
+    }
+
+    if (closing) {
+      const open = stack[stack.length - 1];
+      if (stack.length > 1 && open.name === name) {
+        stack.pop();
+        validateElement(open).forEach(message => errors.push({ line: open.line, message }));
+      } else {
+        errors.push({ line, message: `Unexpected closing tag </${name}>.` });
+      }
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const attr of rawAttrs.matchAll(ATTRIBUTE_PATTERN)) {
+      attrs[attr[1].toLowerCase()] = decodeEntities(attr[2] ?? attr[3] ?? '');
+    }
+
+    const el: SsmlElement = { name, attrs, children: [], line };
+    stack[stack.length - 1].children.push(el);
+
+    if (selfClosing || SELF_CLOSING.has(name)) {
+      validateElement(el).forEach(message => errors.push({ line, message }));
+    } else {
+      stack.push(el);
+    }
+  }
+  pushText(source.slice(cursor), cursor);
+
+  for (const open of stack.slice(1)) {
+    errors.push({ line: open.line, message: `<${open.name}> is never closed.` });
+  }
+
+  return root.children;
+}
+
+function textContent(nodes: SsmlNode[]): string {
+  return nodes.map(n => (typeof n === 'string' ? n : textContent(n.children))).join('');
+}
+
+/**
+ * Formats a date written as ymd/dmy/mdy digits in the script's locale.
+ */
+function formatDate(value: string, format: string, locale: string): string | null {
+  const parts = value.trim().split(/[-/.\s]+/).map(p => parseInt(p, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+  const [year, month, day] =
+    format === 'dmy' ? [parts[2], parts[1], parts[0]] :
+    format === 'mdy' ? [parts[2], parts[0], parts[1]] :
+    parts;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+interface CompileContext {
+  voice?: Voice;
+  speed?: number;
+  pitch?: number;
+}
+
+/**
+ * Parses and validates SSML, then compiles it into renderable segments.
+ * Segments are only returned when there are no errors.
+ */
+export function parseSsml(source: string, language: Language): { segments: SsmlSegment[]; errors: SsmlError[] } {
+  const errors: SsmlError[] = [];
+  const tree = parseTree(source, errors);
+  if (errors.length > 0) return { segments: [], errors };
+
+  const locale = LANGUAGE_DETAILS[language].locale;
+  const segments: SsmlSegment[] = [];
+  // Closing directions of the element that just ended. They only matter if more
+  // text follows in the same segment; a new segment starts without them anyway.
+  let pendingReset = '';
+
+  const emit = (text: string, ctx: CompileContext) => {
+    const last = segments[segments.length - 1];
+    if (
+      last?.kind === 'speech' &&
+      last.voice === ctx.voice &&
+      last.speed === ctx.speed &&
+      last.pitch === ctx.pitch
+    ) {
+      last.text += pendingReset + text;
+    } else {
+      segments.push({ kind: 'speech', text, ...ctx });
+    }
+    pendingReset = '';
+  };
+
+  // Ends the directions an element opened and restates the enclosing ones
+  const closeDirections = (resets: string[], active: string[]) => {
+    pendingReset = ` ${[...resets, ...active].join(' ')} `;
+  };
+
+  // `active` holds the bracket directions in effect from enclosing elements
+  const walk = (nodes: SsmlNode[], ctx: CompileContext, active: string[]) => {
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        emit(node, ctx);
+        continue;
+      }
+
+      const { rate, pitch, time, strength, level, name } = node.attrs;
+      switch (node.name) {
+        case 'speak':
+          walk(node.children, ctx, active);
+          break;
+        case 'break': {
+          const seconds = time !== undefined ? parseTime(time) : null;
+          if (seconds !== null) segments.push({ kind: 'silence', seconds });
+          else emit(` ${BREAK_STRENGTHS[strength ?? 'medium']} `, ctx);
+          break;
+        }
+        case 'prosody': {
+          const next = { ...ctx };
+          const directions: string[] = [];
+          const resets: string[] = [];
+
+          if (rate !== undefined) {
+            if (!(rate in NAMED_RATES)) next.speed = (ctx.speed ?? 1) * (parseRate(rate) as number);
+            else if (NAMED_RATES[rate]) {
+              directions.push(NAMED_RATES[rate]);
+              resets.push(RESET_RATE);
+            }
+          }
+          if (pitch !== undefined) {
+            if (!(pitch in NAMED_PITCHES)) next.pitch = (ctx.pitch ?? 0) + (parsePitch(pitch) as number);
+            else if (NAMED_PITCHES[pitch]) {
+              directions.push(NAMED_PITCHES[pitch]);
+              resets.push(RESET_PITCH);
+            }
+          }
+
+          if (directions.length > 0) emit(` ${directions.join(' ')} `, next);
+          walk(node.children, next, [...active, ...directions]);
+          if (resets.length > 0) closeDirections(resets, active);
+          break;
+        }
+        case 'emphasis': {
+          const direction = EMPHASIS_LEVELS[level ?? 'moderate'];
+          emit(` ${direction} `, ctx);
+          walk(node.children, ctx, [...active, direction]);
+          closeDirections([RESET_EMPHASIS], active);
+          break;
+        }
+        case 'say-as': {
+          const content = textContent(node.children);
+          const interpretAs = node.attrs['interpret-as'];
+
+          if (interpretAs === 'characters') {
+            emit(Array.from(content.replace(/\s+/g, '')).join(' '), ctx);
+          } else if (interpretAs === 'number') {
+            const value = Number(content.replace(/[,\s]/g, ''));
+            if (isNaN(value)) errors.push({ line: node.line, message: `"${content}" is not a number.` });
+            else emit(value.toLocaleString(locale), ctx);
+          } else {
+            const formatted = formatDate(content, node.attrs.format ?? 'ymd', locale);
+            if (formatted === null) errors.push({ line: node.line, message: `"${content}" is not a valid date.` });
+            else emit(formatted, ctx);
+          }
+          break;
+        }
+        case 'voice':
+          walk(node.children, { ...ctx, voice: findVoice(name) }, active);
+          break;
+      }
+    }
+  };
+
+  walk(tree, {}, []);
+  if (errors.length > 0) return { segments: [], errors };
+
+  const cleaned = segments
+    .map(s => (s.kind === 'speech' ? { ...s, text: s.text.replace(/[ \t]+/g, ' ').trim() } : s))
+    .filter(s => s.kind === 'silence' || s.text);
+
+  return { segments: cleaned, errors };
+}
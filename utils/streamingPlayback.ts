@@ -0,0 +1,50 @@
+
+/**
+ * Plays audio buffers back to back on one AudioContext as they arrive, so a
+ * long script can be heard while later chunks are still rendering. Each
+ * buffer is scheduled on the context clock to start exactly where the
+ * previous one ends; one that arrives after the queue ran dry starts as soon
+ * as possible instead.
+ */
+
+// Scheduling headroom so the start of a buffer isn't clipped
+const LEAD_SECONDS = 0.05;
+
+export class StreamingPlayer {
+  private sources: AudioBufferSourceNode[] = [];
+  private nextStart: number | null = null;
+
+  constructor(private ctx: AudioContext) {}
+
+  /**
+   * Queues `buffer` to play `gap` seconds after the previous one ends and
+   * returns its start time on the context clock.
+   */
+  enqueue(buffer: AudioBuffer, gap: number = 0): number {
+    // Not awaited: scheduling on a suspended context is fine, playback starts once it resumes
+    if (this.ctx.state === 'suspended') {
+      this.ctx.resume().catch(err => console.warn("Could not resume streaming playback", err));
+    }
+
+    const earliest = this.ctx.currentTime + LEAD_SECONDS;
+    const start = this.nextStart === null ? earliest : Math.max(this.nextStart + gap, earliest);
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.ctx.destination);
+    source.onended = () => {
+      this.sources = this.sources.filter(s => s !== source);
+    };
+    source.start(start);
+
+    this.sources.push(source);
+    this.nextStart = start + buffer.duration;
+    return start;
+  }
+
+  // Silences everything queued or playing
+  stop() {
+    for (const source of this.sources) source.stop();
+    this.sources = [];
+    this.nextStart = null;
+  }
+}
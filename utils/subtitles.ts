@@ -0,0 +1,105 @@
+
+import { SentenceSpan } from '../types';
+
+/**
+ * Caption cues built from the sentence spans of a render, and their SRT /
+ * WebVTT serializations. Sentence text keeps its own script, so Urdu and
+ * Hindi captions come out in Nastaliq and Devanagari.
+ */
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Common broadcast limits: two lines of up to 42 characters
+const MAX_LINE_LENGTH = 42;
+const MAX_LINES = 2;
+
+// Right-to-left mark, so players align Urdu lines and punctuation correctly
+const RLM = '\u200F';
+
+/**
+ * Strips markup that isn't spoken: inline [tags] and SSML elements.
+ */
+function captionText(text: string): string {
+  return text
+    .replace(/\[[^\]\n]*\]|<[^>\n]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Greedy word wrap. Words longer than a line are kept whole.
+ */
+function wrapLines(text: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    if (current && current.length + 1 + word.length > MAX_LINE_LENGTH) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Turns sentence spans into cues. Spans are shifted by `offset` seconds (e.g.
+ * trimmed leading silence) and clipped to the audio; sentences too long for
+ * one cue are split into several, with time shared in proportion to length.
+ */
+export function buildCues(spans: SentenceSpan[], offset: number = 0, duration: number = Infinity): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const span of spans) {
+    const text = captionText(span.text);
+    const start = Math.max(0, span.start - offset);
+    const end = Math.min(duration, span.end - offset);
+    if (!text || end <= start) continue;
+
+    const lines = wrapLines(text);
+    const groups: string[] = [];
+    for (let i = 0; i < lines.length; i += MAX_LINES) groups.push(lines.slice(i, i + MAX_LINES).join('\n'));
+
+    const totalChars = groups.reduce((n, g) => n + g.length, 0);
+    let cursor = start;
+    for (const group of groups) {
+      const length = ((end - start) * group.length) / totalChars;
+      cues.push({ start: cursor, end: cursor + length, text: group });
+      cursor += length;
+    }
+  }
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+}
+
+function cueLines(text: string, direction: 'ltr' | 'rtl'): string {
+  return direction === 'rtl' ? text.split('\n').map(line => RLM + line).join('\n') : text;
+}
+
+export function toSrt(cues: SubtitleCue[], direction: 'ltr' | 'rtl' = 'ltr'): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cueLines(cue.text, direction)}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(cues: SubtitleCue[], direction: 'ltr' | 'rtl' = 'ltr'): string {
+  const body = cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cueLines(cue.text, direction)}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,19 @@
+
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { splitSentences } from './textChunking';
+
+describe('splitSentences', () => {
+  it('splits English on Latin punctuation', () => {
+    expect(splitSentences('Hello there. How are you? Fine!')).toEqual(['Hello there.', 'How are you?', 'Fine!']);
+  });
+
+  it('splits pasted Urdu and Hindi with English selected', () => {
+    expect(splitSentences('یہ پہلا جملہ ہے۔ یہ دوسرا ہے۔', Language.ENGLISH)).toEqual(['یہ پہلا جملہ ہے۔', 'یہ دوسرا ہے۔']);
+    expect(splitSentences('यह पहला वाक्य है। यह दूसरा है।', Language.ENGLISH)).toEqual(['यह पहला वाक्य है।', 'यह दूसरा है।']);
+  });
+
+  it('splits Urdu on its own terminators', () => {
+    expect(splitSentences('کیا حال ہے؟ ٹھیک ہوں۔', Language.URDU)).toEqual(['کیا حال ہے؟', 'ٹھیک ہوں۔']);
+  });
+});
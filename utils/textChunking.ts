@@ -0,0 +1,102 @@
+
+import { Language } from '../types';
+
+/**
+ * Default upper bound for a single synthesis request. Long prompts either fail
+ * or get truncated by the TTS model, so scripts are split well below that.
+ */
+export const DEFAULT_CHUNK_SIZE = 1200;
+
+// Sentence terminators per script. Latin punctuation stays in every set since
+// Urdu and Hindi text regularly mixes it in, and the English set keeps the
+// native ones so pasted Urdu or Hindi still splits into sentences.
+const SENTENCE_TERMINATORS: Record<Language, string> = {
+  [Language.ENGLISH]: '.!?…۔؟।॥',
+  [Language.URDU]: '.!?…۔؟',
+  [Language.HINDI]: '.!?…।॥',
+};
+
+// A run of non-terminators followed by terminators and optional closing quotes
+// or brackets, or by the end of the text.
+const SENTENCE_PATTERNS = Object.fromEntries(
+  Object.entries(SENTENCE_TERMINATORS).map(([language, chars]) => [
+    language,
+    new RegExp(`[^${chars}]+(?:[${chars}]+["'”’)\\]]*|$)`, 'g')
+  ])
+) as Record<Language, RegExp>;
+
+/**
+ * Splits a paragraph into sentences, keeping the terminating punctuation.
+ */
+export function splitSentences(text: string, language: Language = Language.ENGLISH): string[] {
+  const matches = text.match(SENTENCE_PATTERNS[language]) || [];
+  return matches.map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Splits text into paragraphs on blank lines.
+ */
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Breaks a single over-long sentence at clause boundaries, falling back to
+ * whitespace so no piece exceeds maxChars.
+ */
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  const clauses = sentence.match(/[^,;:،؛]+[,;:،؛]*/g) || [sentence];
+  const words = clauses.flatMap(c => (c.length > maxChars ? c.split(/(?<=\s)/) : [c]));
+
+  for (const word of words) {
+    if (current.length + word.length > maxChars && current.trim()) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += word;
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * Splits a long script into chunks that each fit into one synthesis request.
+ * Chunks break at sentence boundaries and prefer paragraph boundaries once a
+ * chunk is reasonably full, so each chunk still reads naturally on its own.
+ */
+export function chunkScript(
+  text: string,
+  maxChars: number = DEFAULT_CHUNK_SIZE,
+  language: Language = Language.ENGLISH
+): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  for (const paragraph of splitParagraphs(text)) {
+    for (const sentence of splitSentences(paragraph, language)) {
+      const parts = sentence.length > maxChars ? splitLongSentence(sentence, maxChars) : [sentence];
+      for (const part of parts) {
+        if (current.length + part.length + 1 > maxChars) flush();
+        current += (current && !current.endsWith('\n') ? ' ' : '') + part;
+      }
+    }
+
+    // Keep paragraphs together unless the chunk is already mostly full
+    if (current.length > maxChars * 0.6) flush();
+    else if (current) current += '\n\n';
+  }
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,18 @@
+
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { transliterateWord } from './transliteration';
+
+describe('transliterateWord', () => {
+  it.each(['constructor', 'toString', 'valueOf', '__proto__'])('transliterates "%s" instead of an Object.prototype key', word => {
+    for (const language of [Language.URDU, Language.HINDI] as const) {
+      const result = transliterateWord(word, language);
+      expect(typeof result).toBe('string');
+      expect(result).not.toMatch(/function|native code|object/i);
+    }
+  });
+
+  it('prefers the exceptions dictionary', () => {
+    expect(transliterateWord('Awaaz', Language.URDU, { awaaz: 'آواز' })).toBe('آواز');
+  });
+});
@@ -0,0 +1,252 @@
+
+import { Language } from '../types';
+
+/**
+ * Rule-based transliteration of Roman Urdu to Urdu (Nastaliq/Arabic) script
+ * and of Hinglish to Devanagari. Words are looked up in the user's exceptions
+ * dictionary first, then in a small built-in dictionary of common words whose
+ * spelling the rules can't infer, and otherwise converted letter by letter.
+ */
+
+export type TransliterationLanguage = Language.URDU | Language.HINDI;
+
+export type ExceptionDictionary = Record<string, string>;
+
+const EXCEPTIONS_STORAGE_KEY = 'awaazai.transliteration.exceptions';
+
+export function isTransliterable(language: Language): language is TransliterationLanguage {
+  return language === Language.URDU || language === Language.HINDI;
+}
+
+/**
+ * True when the text contains Latin words that would be transliterated.
+ */
+export function containsRomanText(text: string): boolean {
+  return /[A-Za-z]{2,}/.test(text);
+}
+
+const BUILTIN_WORDS: Record<TransliterationLanguage, ExceptionDictionary> = {
+  [Language.URDU]: {
+    aap: 'آپ', ap: 'آپ', hain: 'ہیں', hai: 'ہے', hoon: 'ہوں', hun: 'ہوں', main: 'میں', mein: 'میں',
+    kya: 'کیا', kia: 'کیا', nahi: 'نہیں', nahin: 'نہیں', ko: 'کو', ka: 'کا', ki: 'کی', ke: 'کے',
+    se: 'سے', par: 'پر', aur: 'اور', ye: 'یہ', yeh: 'یہ', wo: 'وہ', woh: 'وہ', hum: 'ہم',
+    tum: 'تم', kaise: 'کیسے', kaisay: 'کیسے', theek: 'ٹھیک', thik: 'ٹھیک', shukriya: 'شکریہ',
+    acha: 'اچھا', accha: 'اچھا', achha: 'اچھا', bohat: 'بہت', bahut: 'بہت', bhi: 'بھی',
+    khush: 'خوش', pakistan: 'پاکستان', allah: 'اللہ', salam: 'سلام', assalam: 'السلام',
+    alaikum: 'علیکم', ji: 'جی', haan: 'ہاں', kab: 'کب', kahan: 'کہاں', kyun: 'کیوں', kaun: 'کون',
+    mera: 'میرا', meri: 'میری', tera: 'تیرا', apna: 'اپنا', dost: 'دوست', ghar: 'گھر', zindagi: 'زندگی'
+  },
+  [Language.HINDI]: {
+    aap: 'आप', ap: 'आप', hain: 'हैं', hai: 'है', hoon: 'हूँ', hun: 'हूँ', main: 'मैं', mein: 'में',
+    kya: 'क्या', kia: 'क्या', nahi: 'नहीं', nahin: 'नहीं', ko: 'को', ka: 'का', ki: 'की', ke: 'के',
+    se: 'से', par: 'पर', aur: 'और', ye: 'ये', yeh: 'यह', wo: 'वो', woh: 'वह', hum: 'हम',
+    tum: 'तुम', kaise: 'कैसे', theek: 'ठीक', thik: 'ठीक', dhanyavaad: 'धन्यवाद', shukriya: 'शुक्रिया',
+    acha: 'अच्छा', accha: 'अच्छा', achha: 'अच्छा', bahut: 'बहुत', bohat: 'बहुत', bhi: 'भी',
+    khush: 'ख़ुश', bharat: 'भारत', namaste: 'नमस्ते', ji: 'जी', haan: 'हाँ', kab: 'कब',
+    kahan: 'कहाँ', kyun: 'क्यों', kaun: 'कौन', mera: 'मेरा', meri: 'मेरी', tera: 'तेरा',
+    apna: 'अपना', dost: 'दोस्त', ghar: 'घर', zindagi: 'ज़िंदगी'
+  }
+};
+
+// Longest patterns first so digraphs win over single letters
+const CONSONANTS = ['chh', 'kh', 'gh', 'ch', 'jh', 'th', 'dh', 'ph', 'bh', 'sh', 'rh', 'b', 'c', 'd', 'f', 'g', 'h', 'j', 'k', 'l', 'm', 'n', 'p', 'q', 'r', 's', 't', 'v', 'w', 'x', 'y', 'z'];
+const VOWELS = ['aa', 'ai', 'au', 'ee', 'ei', 'oo', 'ou', 'a', 'e', 'i', 'o', 'u'];
+
+interface Unit {
+  kind: 'C' | 'V';
+  key: string;
+}
+
+function segment(word: string): Unit[] {
+  const units: Unit[] = [];
+  let i = 0;
+  while (i < word.length) {
+    const rest = word.slice(i);
+    const vowel = VOWELS.find(v => rest.startsWith(v));
+    const consonant = CONSONANTS.find(c => rest.startsWith(c));
+    // Prefer the longer match so "ai" isn't read as "a" + "i"
+    if (vowel && (!consonant || vowel.length >= consonant.length)) {
+      units.push({ kind: 'V', key: vowel });
+      i += vowel.length;
+    } else if (consonant) {
+      units.push({ kind: 'C', key: consonant });
+      i += consonant.length;
+    } else {
+      i++;
+    }
+  }
+  return units;
+}
+
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  k: 'क', kh: 'ख', g: 'ग', gh: 'घ', c: 'क', ch: 'च', chh: 'छ', j: 'ज', jh: 'झ', t: 'त', th: 'थ',
+  d: 'द', dh: 'ध', n: 'न', p: 'प', ph: 'फ', f: 'फ़', b: 'ब', bh: 'भ', m: 'म', y: 'य', r: 'र',
+  rh: 'ढ़', l: 'ल', v: 'व', w: 'व', s: 'स', sh: 'श', h: 'ह', z: 'ज़', q: 'क़', x: 'क्स'
+};
+
+// [independent form, matra]
+const DEVANAGARI_VOWELS: Record<string, [string, string]> = {
+  a: ['अ', ''], aa: ['आ', 'ा'], i: ['इ', 'ि'], ee: ['ई', 'ी'], ei: ['ई', 'ी'], u: ['उ', 'ु'],
+  oo: ['ऊ', 'ू'], e: ['ए', 'े'], ai: ['ऐ', 'ै'], o: ['ओ', 'ो'], au: ['औ', 'ौ'], ou: ['औ', 'ौ']
+};
+
+function toDevanagari(units: Unit[]): string {
+  let out = '';
+  units.forEach((unit, idx) => {
+    const prev = units[idx - 1];
+    const next = units[idx + 1];
+    const isLast = idx === units.length - 1;
+
+    if (unit.kind === 'C') {
+      // Nasal before another consonant becomes an anusvara: "hindi" -> हिंदी
+      if (unit.key === 'n' && prev?.kind === 'V' && (next?.kind === 'C' || (isLast && ['ai', 'ee', 'oo'].includes(prev.key)))) {
+        out += 'ं';
+        return;
+      }
+      out += DEVANAGARI_CONSONANTS[unit.key] ?? '';
+      if (next?.kind === 'C') out += '्';
+      return;
+    }
+
+    const [independent, matra] = DEVANAGARI_VOWELS[unit.key];
+    if (!prev || prev.kind === 'V') {
+      out += independent;
+    } else if (isLast && unit.key === 'a') {
+      out += 'ा'; // word-final "a" is long in Hinglish spelling: "kya", "tha"
+    } else if (isLast && unit.key === 'i') {
+      out += 'ी';
+    } else {
+      out += matra;
+    }
+  });
+  return out;
+}
+
+const URDU_CONSONANTS: Record<string, string> = {
+  k: 'ک', kh: 'خ', g: 'گ', gh: 'غ', c: 'ک', ch: 'چ', chh: 'چھ', j: 'ج', jh: 'جھ', t: 'ت', th: 'تھ',
+  d: 'د', dh: 'دھ', n: 'ن', p: 'پ', ph: 'پھ', f: 'ف', b: 'ب', bh: 'بھ', m: 'م', y: 'ی', r: 'ر',
+  rh: 'ڑھ', l: 'ل', v: 'و', w: 'و', s: 'س', sh: 'ش', h: 'ہ', z: 'ز', q: 'ق', x: 'کس'
+};
+
+function toUrdu(units: Unit[]): string {
+  let out = '';
+  units.forEach((unit, idx) => {
+    const prev = units[idx - 1];
+    const isFirst = idx === 0;
+    const isLast = idx === units.length - 1;
+
+    if (unit.kind === 'C') {
+      // Word-final nasal after a long vowel is a noon ghunna: "main" -> میں
+      if (unit.key === 'n' && isLast && prev?.kind === 'V' && ['ai', 'ee', 'oo', 'aa'].includes(prev.key)) {
+        out += 'ں';
+        return;
+      }
+      out += URDU_CONSONANTS[unit.key] ?? '';
+      return;
+    }
+
+    if (isFirst) {
+      const initial: Record<string, string> = {
+        a: 'ا', aa: 'آ', i: 'ا', ee: 'ای', ei: 'ای', u: 'ا', oo: 'او', e: 'ای', ai: 'اے', o: 'او', au: 'او', ou: 'او'
+      };
+      out += isLast && unit.key === 'e' ? 'اے' : initial[unit.key];
+      return;
+    }
+
+    switch (unit.key) {
+      case 'a':
+        // Short medial "a" is unwritten; final "a" is an alif
+        if (isLast) out += 'ا';
+        break;
+      case 'aa':
+        out += 'ا';
+        break;
+      case 'i':
+        if (isLast) out += 'ی';
+        break;
+      case 'ee':
+      case 'ei':
+        out += 'ی';
+        break;
+      case 'u':
+        break;
+      case 'oo':
+      case 'o':
+      case 'au':
+      case 'ou':
+        out += 'و';
+        break;
+      case 'e':
+      case 'ai':
+        out += isLast ? 'ے' : 'ی';
+        break;
+    }
+  });
+  return out;
+}
+
+const PUNCTUATION: Record<TransliterationLanguage, Record<string, string>> = {
+  [Language.URDU]: { '.': '۔', '?': '؟', ',': '،', ';': '؛' },
+  [Language.HINDI]: { '.': '।' }
+};
+
+/**
+ * Converts a single Roman word, honouring the exceptions dictionary.
+ */
+export function transliterateWord(
+  word: string,
+  language: TransliterationLanguage,
+  exceptions: ExceptionDictionary = {}
+): string {
+  const key = word.toLowerCase();
+  // Own keys only, so words like "constructor" don't resolve to Object.prototype
+  const builtin = BUILTIN_WORDS[language];
+  const known = Object.hasOwn(exceptions, key) ? exceptions[key] : Object.hasOwn(builtin, key) ? builtin[key] : undefined;
+  if (known) return known;
+
+  const units = segment(key);
+  return language === Language.URDU ? toUrdu(units) : toDevanagari(units);
+}
+
+/**
+ * Transliterates every Latin word in the text. Existing native-script text,
+ * numbers, inline tags such as "[sigh]" and SSML markup are left untouched.
+ */
+export function transliterate(
+  text: string,
+  language: TransliterationLanguage,
+  exceptions: ExceptionDictionary = {}
+): string {
+  const punctuation = PUNCTUATION[language];
+
+  return text
+    .split(/(\[[^\]\n]*\]|<[^>\n]*>)/)
+    .map(part => {
+      if (part.startsWith('[') || part.startsWith('<')) return part;
+      return part
+        .replace(/[A-Za-z]+/g, word => transliterateWord(word, language, exceptions))
+        // Only Latin sentence punctuation that follows converted text
+        .replace(/([^\x00-\x7F])([.?,;])(?=\s|$)/g, (_, before, mark) => before + (punctuation[mark] ?? mark));
+    })
+    .join('');
+}
+
+export function loadExceptions(language: TransliterationLanguage): ExceptionDictionary {
+  try {
+    const all = JSON.parse(localStorage.getItem(EXCEPTIONS_STORAGE_KEY) || '{}');
+    return all[language] ?? {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveExceptions(language: TransliterationLanguage, exceptions: ExceptionDictionary): void {
+  let all: Record<string, ExceptionDictionary> = {};
+  try {
+    all = JSON.parse(localStorage.getItem(EXCEPTIONS_STORAGE_KEY) || '{}');
+  } catch {
+    // Corrupt storage is replaced below
+  }
+  all[language] = exceptions;
+  localStorage.setItem(EXCEPTIONS_STORAGE_KEY, JSON.stringify(all));
+}
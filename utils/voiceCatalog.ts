@@ -0,0 +1,42 @@
+
+import { Language, Voice, VOICE_DETAILS, VoicePitchRange } from '../types';
+
+const FAVORITES_STORAGE_KEY = 'awaazai.voices.favorites';
+
+export interface VoiceFilter {
+  query: string;
+  gender: 'All' | 'Male' | 'Female';
+  pitchRange: 'All' | VoicePitchRange;
+  language: 'All' | Language;
+  favoritesOnly: boolean;
+}
+
+/**
+ * Filters voices by the gallery controls. The query matches the voice name,
+ * tone descriptors and use cases, so "warm audiobook" finds Sulafat.
+ */
+export function filterVoices(voices: Voice[], filter: VoiceFilter, favorites: Voice[]): Voice[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return voices.filter(voice => {
+    const details = VOICE_DETAILS[voice];
+    if (filter.gender !== 'All' && details.gender !== filter.gender) return false;
+    if (filter.pitchRange !== 'All' && details.pitchRange !== filter.pitchRange) return false;
+    if (filter.language !== 'All' && !details.languages.includes(filter.language)) return false;
+    if (filter.favoritesOnly && !favorites.includes(voice)) return false;
+    const haystack = [voice, ...details.tone, ...details.useCases].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+}
+
+export function loadFavoriteVoices(): Voice[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(FAVORITES_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter((v): v is Voice => v in VOICE_DETAILS) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFavoriteVoices(voices: Voice[]): void {
+  localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(voices));
+}
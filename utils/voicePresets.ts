@@ -0,0 +1,93 @@
+
+import { Language, Voice, VoicePreset, VoiceStyle } from '../types';
+
+const PRESETS_STORAGE_KEY = 'awaazai.voices.presets';
+
+// Slider ranges of the editor; imported presets are clamped to them
+export const PITCH_RANGE = { min: -10, max: 10 };
+export const SPEED_RANGE = { min: 0.5, max: 2 };
+
+export const BUILT_IN_PRESETS: VoicePreset[] = [
+  { id: 'builtin-en-news', name: 'News Anchor', voice: Voice.FENRIR, style: VoiceStyle.AUTHORITATIVE, pitch: -2, speed: 0.9, language: Language.ENGLISH, builtIn: true },
+  { id: 'builtin-en-audiobook', name: 'Audiobook Narrator', voice: Voice.SULAFAT, style: VoiceStyle.NARRATIVE, pitch: 0, speed: 0.9, language: Language.ENGLISH, builtIn: true },
+  { id: 'builtin-en-promo', name: 'Upbeat Promo', voice: Voice.PUCK, style: VoiceStyle.ENERGETIC, pitch: 1, speed: 1.1, language: Language.ENGLISH, builtIn: true },
+  { id: 'builtin-ur-news', name: 'Khabarnama', voice: Voice.CHARON, style: VoiceStyle.PROFESSIONAL, pitch: -1, speed: 0.9, language: Language.URDU, builtIn: true },
+  { id: 'builtin-ur-dastan', name: 'Dastangoi', voice: Voice.FENRIR, style: VoiceStyle.DRAMATIC, pitch: -2, speed: 0.8, language: Language.URDU, builtIn: true },
+  { id: 'builtin-ur-friendly', name: 'Friendly Host', voice: Voice.KORE, style: VoiceStyle.FRIENDLY, pitch: 0, speed: 1, language: Language.URDU, builtIn: true },
+  { id: 'builtin-hi-news', name: 'Samachar', voice: Voice.ORUS, style: VoiceStyle.AUTHORITATIVE, pitch: -1, speed: 0.9, language: Language.HINDI, builtIn: true },
+  { id: 'builtin-hi-kahani', name: 'Kahani Narrator', voice: Voice.AOEDE, style: VoiceStyle.CALM, pitch: 0, speed: 0.9, language: Language.HINDI, builtIn: true },
+  { id: 'builtin-hi-ad', name: 'Radio Jingle', voice: Voice.ZEPHYR, style: VoiceStyle.CHEERFUL, pitch: 1.5, speed: 1.1, language: Language.HINDI, builtIn: true }
+];
+
+export function loadPresets(): VoicePreset[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Only user presets are stored; built-ins always come from BUILT_IN_PRESETS
+export function savePresets(presets: VoicePreset[]): void {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+}
+
+export function findPreset(presets: VoicePreset[], id: string | undefined): VoicePreset | undefined {
+  return id ? presets.find(p => p.id === id) : undefined;
+}
+
+/**
+ * Copies a preset as an editable user preset, named "<name> (copy)".
+ */
+export function duplicatePreset(preset: VoicePreset): VoicePreset {
+  const { builtIn, ...rest } = preset;
+  return { ...rest, id: crypto.randomUUID(), name: `${preset.name} (copy)` };
+}
+
+/**
+ * Adds imported presets, replacing user presets with the same name and language.
+ */
+export function mergePresets(presets: VoicePreset[], imported: VoicePreset[]): VoicePreset[] {
+  const key = (p: VoicePreset) => `${p.language}:${p.name.trim().toLowerCase()}`;
+  const importedKeys = new Set(imported.map(key));
+  return [...presets.filter(p => p.builtIn || !importedKeys.has(key(p))), ...imported];
+}
+
+export function presetsToJson(presets: VoicePreset[]): string {
+  return JSON.stringify(
+    presets.map(({ name, voice, style, pitch, speed, language }) => ({ name, voice, style, pitch, speed, language })),
+    null,
+    2
+  );
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+/**
+ * Parses an exported preset list. Entries with an unknown voice or language
+ * are skipped; out-of-range pitch and speed are clamped to the sliders.
+ */
+export function parsePresetFile(content: string): VoicePreset[] {
+  const parsed = JSON.parse(content);
+  const records: Record<string, unknown>[] = Array.isArray(parsed) ? parsed : parsed?.presets;
+  if (!Array.isArray(records)) throw new Error("Preset file must be a JSON array of presets.");
+
+  return records
+    .filter(r =>
+      typeof r?.name === 'string' && r.name.trim() &&
+      Object.values(Voice).includes(r.voice as Voice) &&
+      Object.values(Language).includes(r.language as Language)
+    )
+    .map(r => ({
+      id: crypto.randomUUID(),
+      name: (r.name as string).trim(),
+      voice: r.voice as Voice,
+      style: typeof r.style === 'string' && r.style.trim() ? r.style.trim() : VoiceStyle.NEUTRAL,
+      pitch: typeof r.pitch === 'number' && Number.isFinite(r.pitch) ? clamp(r.pitch, PITCH_RANGE) : 0,
+      speed: typeof r.speed === 'number' && Number.isFinite(r.speed) ? clamp(r.speed, SPEED_RANGE) : 1,
+      language: r.language as Language
+    }));
+}